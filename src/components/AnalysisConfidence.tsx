@@ -0,0 +1,57 @@
+import { AlertTriangle, ShieldCheck } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { AnalysisQuality, ConfidenceLevel } from "@/lib/analysis";
+
+const LEVEL_STYLES: Record<ConfidenceLevel, string> = {
+  high: "border-success/30 bg-success/10 text-success",
+  medium: "border-warning/30 bg-warning/10 text-warning",
+  low: "border-destructive/30 bg-destructive/10 text-destructive",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "name",
+  description: "description",
+  image: "image",
+  price: "price",
+  rating: "rating",
+  review_count: "review count",
+  brand: "brand",
+};
+
+const fieldList = (fields: string[]) => fields.map((field) => FIELD_LABELS[field] ?? field).join(", ");
+
+interface ConfidenceBadgeProps {
+  quality: AnalysisQuality;
+}
+
+export const ConfidenceBadge = ({ quality }: ConfidenceBadgeProps) => (
+  <Tooltip>
+    <TooltipTrigger asChild>
+      <Badge variant="outline" className={`gap-1 cursor-default ${LEVEL_STYLES[quality.confidence]}`}>
+        <ShieldCheck className="h-3 w-3" />
+        {quality.confidence.charAt(0).toUpperCase() + quality.confidence.slice(1)} confidence
+      </Badge>
+    </TooltipTrigger>
+    <TooltipContent className="max-w-xs space-y-1 text-xs">
+      <p>Confidence score {quality.confidence_score}/100</p>
+      {quality.fields.extracted.length > 0 && <p>Read from the page: {fieldList(quality.fields.extracted)}</p>}
+      {quality.fields.missing.length > 0 && <p>Not found on the page: {fieldList(quality.fields.missing)}</p>}
+    </TooltipContent>
+  </Tooltip>
+);
+
+export const LowConfidenceBanner = ({ quality }: ConfidenceBadgeProps) => (
+  <Alert className="border-warning/50 bg-warning/10 [&>svg]:text-warning">
+    <AlertTriangle className="h-4 w-4" />
+    <AlertTitle>Low-confidence analysis</AlertTitle>
+    <AlertDescription>
+      <ul className="list-disc pl-4 space-y-1 text-muted-foreground">
+        {quality.warnings.map((warning, idx) => (
+          <li key={idx}>{warning}</li>
+        ))}
+      </ul>
+    </AlertDescription>
+  </Alert>
+);
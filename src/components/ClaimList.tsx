@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { Claim, EvidenceRef } from "@/lib/analysis";
+
+interface ClaimListProps {
+  claims: Claim[];
+  kind: "pro" | "con";
+}
+
+const KIND_LABELS: Record<EvidenceRef["kind"], string> = {
+  review: "Customer review",
+  spec: "Product facts",
+  description: "Product description",
+  source: "Product page",
+};
+
+const importanceClass = (importance: Claim["importance"]) => {
+  if (importance === "high") return "font-semibold";
+  if (importance === "low") return "text-muted-foreground";
+  return "";
+};
+
+const EvidenceItem = ({ evidence }: { evidence: EvidenceRef }) => (
+  <li className="p-2 bg-card/50 rounded-md border border-border/50 space-y-1">
+    <div className="flex items-center justify-between text-[11px] text-muted-foreground">
+      <span>
+        {KIND_LABELS[evidence.kind]} · {evidence.id}
+      </span>
+      {evidence.rating !== undefined && evidence.rating !== null && <span>{evidence.rating}/5</span>}
+    </div>
+    {evidence.url ? (
+      <a
+        href={evidence.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="text-xs text-primary hover:underline break-all"
+      >
+        {evidence.text}
+      </a>
+    ) : (
+      <p className="text-xs text-foreground italic">“{evidence.text}”</p>
+    )}
+  </li>
+);
+
+const ClaimItem = ({ claim, kind }: { claim: Claim; kind: ClaimListProps["kind"] }) => {
+  const [open, setOpen] = useState(false);
+  const marker = kind === "pro" ? <span className="text-success mt-1">✓</span> : <span className="text-destructive mt-1">✗</span>;
+
+  if (claim.evidence.length === 0) {
+    return (
+      <li className="text-sm text-foreground flex items-start gap-2" title="No supporting evidence was cited">
+        {marker}
+        <span className={importanceClass(claim.importance)}>{claim.text}</span>
+      </li>
+    );
+  }
+
+  return (
+    <li className="text-sm text-foreground">
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CollapsibleTrigger className="flex w-full items-start gap-2 text-left group">
+          {marker}
+          <span className={`flex-1 ${importanceClass(claim.importance)}`}>{claim.text}</span>
+          <span className="flex items-center gap-1 mt-0.5 text-[11px] text-muted-foreground group-hover:text-primary whitespace-nowrap">
+            {claim.evidence.length} {claim.evidence.length === 1 ? "source" : "sources"}
+            <ChevronDown className={`h-3 w-3 transition-transform ${open ? "rotate-180" : ""}`} />
+          </span>
+        </CollapsibleTrigger>
+        <CollapsibleContent>
+          <ul className="mt-2 ml-5 space-y-2">
+            {claim.evidence.map((evidence) => (
+              <EvidenceItem key={evidence.id} evidence={evidence} />
+            ))}
+          </ul>
+        </CollapsibleContent>
+      </Collapsible>
+    </li>
+  );
+};
+
+export const ClaimList = ({ claims, kind }: ClaimListProps) => (
+  <ul className="space-y-2">
+    {claims.map((claim, idx) => (
+      <ClaimItem key={idx} claim={claim} kind={kind} />
+    ))}
+  </ul>
+);
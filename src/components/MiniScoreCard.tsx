@@ -1,9 +1,13 @@
+import type { AspectSentiment } from "@/lib/analysis";
+
 interface MiniScoreCardProps {
   label: string;
   score: number;
+  // Review mentions of this dimension, when reviews were analysed.
+  evidence?: AspectSentiment;
 }
 
-export const MiniScoreCard = ({ label, score }: MiniScoreCardProps) => {
+export const MiniScoreCard = ({ label, score, evidence }: MiniScoreCardProps) => {
   const getScoreColor = (score: number) => {
     if (score >= 80) return "text-success";
     if (score >= 60) return "text-warning";
@@ -16,6 +20,15 @@ export const MiniScoreCard = ({ label, score }: MiniScoreCardProps) => {
         {score}
       </div>
       <div className="text-xs text-muted-foreground text-center">{label}</div>
+      {evidence && evidence.mentions > 0 && (
+        <div
+          className="text-[11px] text-muted-foreground text-center"
+          title={`${evidence.mentions} reviews mention ${evidence.label.toLowerCase()}`}
+        >
+          <span className="text-success">▲ {evidence.positive}</span>{" "}
+          <span className="text-destructive">▼ {evidence.negative}</span>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,37 +1,19 @@
 import { useState } from "react";
-import { Search } from "lucide-react";
+import { Link } from "react-router-dom";
+import { Columns3, Search, Star, Tag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
-import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { ConfidenceBadge, LowConfidenceBanner } from "./AnalysisConfidence";
+import { ClaimList } from "./ClaimList";
 import { ScoreCircle } from "./ScoreCircle";
+import { ScoreExplanation } from "./ScoreExplanation";
 import { MiniScoreCard } from "./MiniScoreCard";
-import { StoreLink } from "./StoreLink";
-
-interface AnalysisResult {
-  url: string;
-  meta: {
-    title: string | null;
-    image: string | null;
-    description: string | null;
-    price: number | null;
-    currency: string | null;
-    rating: number | null;
-  };
-  ai: {
-    score: number;
-    short_review: string;
-    pros: string[];
-    cons: string[];
-    sentiment_score: number;
-    category?: string;
-    category_scores?: { label: string; score: number }[];
-    stores?: { name: string; url: string; price?: string }[];
-    reviews_summary?: string;
-    sources_count?: number;
-  };
-}
+import { SentimentBreakdown } from "./SentimentBreakdown";
+import { StoreOffers } from "./StoreOffers";
+import { ProductHistory } from "./ProductHistory";
+import { analyzeProduct, type AnalysisResult } from "@/lib/analysis";
 
 export const ProductAnalyzer = () => {
   const [url, setUrl] = useState("");
@@ -53,33 +35,7 @@ export const ProductAnalyzer = () => {
     setResult(null);
 
     try {
-      const { data: functionData, error: functionError } = await supabase.functions.invoke(
-        "analyze-product",
-        {
-          body: { url: url.trim() },
-        }
-      );
-
-      if (functionError) {
-        console.error("Function error:", functionError);
-        toast({
-          title: "Error",
-          description: functionError.message || "Failed to analyze product",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      if (!functionData || !functionData.ai) {
-        toast({
-          title: "Error",
-          description: "No analysis data received. Please try again.",
-          variant: "destructive",
-        });
-        return;
-      }
-
-      setResult(functionData);
+      setResult(await analyzeProduct(url));
       toast({
         title: "Success",
         description: "Product analyzed successfully!",
@@ -88,7 +44,7 @@ export const ProductAnalyzer = () => {
       console.error("Error:", error);
       toast({
         title: "Error",
-        description: "An unexpected error occurred",
+        description: error instanceof Error && error.message ? error.message : "Failed to analyze product",
         variant: "destructive",
       });
     } finally {
@@ -106,6 +62,12 @@ export const ProductAnalyzer = () => {
           <p className="text-muted-foreground text-sm md:text-base">
             AI-Powered Product Analysis
           </p>
+          <Link
+            to={result ? `/compare?u=${encodeURIComponent(result.url)}` : "/compare"}
+            className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-primary"
+          >
+            <Columns3 className="h-4 w-4" /> Compare products
+          </Link>
         </div>
 
         <Card className="p-4 md:p-6 bg-gradient-card backdrop-blur-sm border-border/50 shadow-card animate-slide-up">
@@ -130,6 +92,8 @@ export const ProductAnalyzer = () => {
 
         {result && (
           <div className="space-y-6 animate-fade-in">
+            {result.quality?.confidence === "low" && <LowConfidenceBanner quality={result.quality} />}
+
             {/* Product Image */}
             {result.meta.image && (
               <div className="w-full max-w-md mx-auto">
@@ -146,33 +110,64 @@ export const ProductAnalyzer = () => {
               <h2 className="text-2xl md:text-3xl font-bold text-primary">
                 {result.meta.title || "Product"}
               </h2>
+              {result.quality && (
+                <div className="flex justify-center mt-2">
+                  <ConfidenceBadge quality={result.quality} />
+                </div>
+              )}
               {result.meta.description && (
                 <p className="text-muted-foreground text-sm md:text-base mt-2">
                   {result.meta.description}
                 </p>
               )}
+              {(result.meta.price !== null || result.meta.rating !== null) && (
+                <div className="flex flex-wrap justify-center gap-3 mt-4">
+                  {result.meta.price !== null && (
+                    <div className="flex items-center gap-2 px-4 py-2 bg-primary/10 rounded-lg border border-primary/20">
+                      <Tag className="h-4 w-4 text-primary" />
+                      <span className="font-semibold">
+                        {result.meta.currency} {result.meta.price.toLocaleString()}
+                      </span>
+                    </div>
+                  )}
+                  {result.meta.rating !== null && (
+                    <div className="flex items-center gap-2 px-4 py-2 bg-warning/10 rounded-lg border border-warning/20">
+                      <Star className="h-4 w-4 text-warning fill-warning" />
+                      <span className="font-semibold">{result.meta.rating.toFixed(1)}</span>
+                      {result.meta.review_count !== null && (
+                        <span className="text-xs text-muted-foreground">
+                          ({result.meta.review_count.toLocaleString()} reviews)
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+              {result.meta.brand && (
+                <p className="text-xs text-muted-foreground mt-2">by {result.meta.brand}</p>
+              )}
+              {(typeof result.meta.in_stock === "boolean" || (result.meta.variants?.length ?? 0) > 1) && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  {typeof result.meta.in_stock === "boolean" && (
+                    <span className={result.meta.in_stock ? "text-success" : "text-destructive"}>
+                      {result.meta.in_stock ? "In stock" : "Out of stock"}
+                    </span>
+                  )}
+                  {typeof result.meta.in_stock === "boolean" && (result.meta.variants?.length ?? 0) > 1 && " · "}
+                  {(result.meta.variants?.length ?? 0) > 1 && (
+                    <span>{result.meta.variants!.length} variants</span>
+                  )}
+                </p>
+              )}
             </div>
 
             {/* Available Stores */}
-            {result.ai.stores && result.ai.stores.length > 0 && (
-              <Card className="p-4 md:p-6 bg-gradient-card backdrop-blur-sm border-border/50 shadow-card">
-                <h3 className="text-lg font-semibold mb-4 text-primary">Available On:</h3>
-                <div className="space-y-2">
-                  {result.ai.stores.map((store, idx) => (
-                    <StoreLink
-                      key={idx}
-                      name={store.name}
-                      url={store.url}
-                      price={store.price}
-                    />
-                  ))}
-                </div>
-              </Card>
-            )}
+            {result.ai.stores && result.ai.stores.length > 0 && <StoreOffers offers={result.ai.stores} />}
 
             {/* AI Score */}
-            <div className="flex justify-center">
+            <div className="flex flex-col items-center gap-3">
               <ScoreCircle score={result.ai.score} />
+              {result.ai.score_explanation && <ScoreExplanation explanation={result.ai.score_explanation} />}
             </div>
 
             {/* Category-specific Scores */}
@@ -183,12 +178,20 @@ export const ProductAnalyzer = () => {
                 </h3>
                 <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                   {result.ai.category_scores.map((item, idx) => (
-                    <MiniScoreCard key={idx} label={item.label} score={item.score} />
+                    <MiniScoreCard
+                      key={idx}
+                      label={item.label}
+                      score={item.score}
+                      evidence={result.ai.sentiment_breakdown?.aspects.find((aspect) => aspect.key === item.key)}
+                    />
                   ))}
                 </div>
               </Card>
             )}
 
+            {/* Review Sentiment by Aspect */}
+            {result.ai.sentiment_breakdown && <SentimentBreakdown breakdown={result.ai.sentiment_breakdown} />}
+
             {/* AI Summary */}
             <Card className="p-4 md:p-6 bg-gradient-card backdrop-blur-sm border-border/50 shadow-card">
               <h3 className="text-lg font-semibold mb-4 text-primary">AI Summary</h3>
@@ -201,8 +204,12 @@ export const ProductAnalyzer = () => {
                   <div className="border-t border-border/50 my-4" />
                   <div className="space-y-2">
                     <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                      {result.ai.sources_count && (
-                        <span>Sources Analysed ({result.ai.sources_count})</span>
+                      {!!result.ai.sources_count && (
+                        <span>
+                          {result.reviews
+                            ? `Based on ${result.ai.sources_count} of ${result.reviews.found} customer reviews`
+                            : `Sources Analysed (${result.ai.sources_count})`}
+                        </span>
                       )}
                     </div>
                     <p className="text-sm text-muted-foreground italic">
@@ -219,30 +226,19 @@ export const ProductAnalyzer = () => {
                 <h3 className="text-lg font-semibold mb-4 text-success">
                   Key Strengths ({result.ai.pros.length})
                 </h3>
-                <ul className="space-y-2">
-                  {result.ai.pros.map((pro, idx) => (
-                    <li key={idx} className="text-sm text-foreground flex items-start gap-2">
-                      <span className="text-success mt-1">✓</span>
-                      <span>{pro}</span>
-                    </li>
-                  ))}
-                </ul>
+                <ClaimList claims={result.ai.pros} kind="pro" />
               </Card>
 
               <Card className="p-4 md:p-6 bg-gradient-card backdrop-blur-sm border-border/50 shadow-card">
                 <h3 className="text-lg font-semibold mb-4 text-destructive">
                   Key Limitations ({result.ai.cons.length})
                 </h3>
-                <ul className="space-y-2">
-                  {result.ai.cons.map((con, idx) => (
-                    <li key={idx} className="text-sm text-foreground flex items-start gap-2">
-                      <span className="text-destructive mt-1">✗</span>
-                      <span>{con}</span>
-                    </li>
-                  ))}
-                </ul>
+                <ClaimList claims={result.ai.cons} kind="con" />
               </Card>
             </div>
+
+            {/* Price and score history */}
+            {result.product_id && <ProductHistory productId={result.product_id} />}
           </div>
         )}
       </div>
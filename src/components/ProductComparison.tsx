@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQueries } from "@tanstack/react-query";
+import { ArrowLeft, Plus, Trophy, X } from "lucide-react";
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { analyzeProduct, type AnalysisResult } from "@/lib/analysis";
+import { ConfidenceBadge } from "./AnalysisConfidence";
+import { ScoreCircle } from "./ScoreCircle";
+
+const MAX_PRODUCTS = 4;
+
+const PRODUCT_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(var(--success))",
+  "hsl(var(--warning))",
+  "hsl(var(--destructive))",
+];
+
+interface ComparisonRow {
+  key: string;
+  label: string;
+  value: (result: AnalysisResult) => number | null | undefined;
+  format: (value: number, result: AnalysisResult) => string;
+  better: "higher" | "lower";
+  // Rows whose values are only comparable within one currency.
+  sameCurrency?: boolean;
+}
+
+const ROWS: ComparisonRow[] = [
+  {
+    key: "price",
+    label: "Price",
+    value: (r) => r.meta.price,
+    format: (v, r) => `${r.meta.currency ?? ""} ${v.toLocaleString()}`.trim(),
+    better: "lower",
+    sameCurrency: true,
+  },
+  { key: "rating", label: "Rating", value: (r) => r.meta.rating, format: (v) => `${v.toFixed(1)} / 5`, better: "higher" },
+  {
+    key: "reviews",
+    label: "Reviews",
+    value: (r) => r.meta.review_count,
+    format: (v) => v.toLocaleString(),
+    better: "higher",
+  },
+  {
+    key: "sentiment",
+    label: "Sentiment",
+    value: (r) => r.ai.sentiment_score,
+    format: (v) => v.toFixed(2),
+    better: "higher",
+  },
+];
+
+const CLAIM_ROWS: ComparisonRow[] = [
+  { key: "pros", label: "Pros", value: (r) => r.ai.pros.length, format: (v) => `${v} listed`, better: "higher" },
+  { key: "cons", label: "Cons", value: (r) => r.ai.cons.length, format: (v) => `${v} listed`, better: "lower" },
+];
+
+const categoryScore = (result: AnalysisResult, key: string) =>
+  result.ai.category_scores?.find((s) => (s.key ?? s.label) === key);
+
+// One row per rubric dimension scored for at least two of the products.
+const categoryScoreRows = (results: (AnalysisResult | undefined)[]): ComparisonRow[] => {
+  const loaded = results.filter((r): r is AnalysisResult => !!r);
+  const keys = [...new Set(loaded.flatMap((r) => r.ai.category_scores?.map((s) => s.key ?? s.label) ?? []))];
+  return keys
+    .filter((key) => loaded.filter((r) => categoryScore(r, key)).length > 1)
+    .map((key) => ({
+      key: `score:${key}`,
+      label: loaded.map((r) => categoryScore(r, key)?.label).find(Boolean) ?? key,
+      value: (r) => categoryScore(r, key)?.score,
+      format: (v) => `${v} / 100`,
+      better: "higher",
+    }));
+};
+
+// Index of the winning column, or null when fewer than two products have a
+// comparable value or the best value is tied.
+const findWinner = (row: ComparisonRow, results: (AnalysisResult | undefined)[]): number | null => {
+  const candidates = results
+    .map((result, idx) => ({ idx, result, value: result ? row.value(result) : null }))
+    .filter((c): c is { idx: number; result: AnalysisResult; value: number } => typeof c.value === "number");
+  if (candidates.length < 2) return null;
+  if (row.sameCurrency && new Set(candidates.map((c) => c.result.meta.currency)).size > 1) return null;
+  const sorted = [...candidates].sort((a, b) => (row.better === "higher" ? b.value - a.value : a.value - b.value));
+  return sorted[0].value === sorted[1].value ? null : sorted[0].idx;
+};
+
+const WinnerBadge = () => (
+  <span className="inline-flex items-center gap-1 text-xs text-success">
+    <Trophy className="h-3 w-3" /> Best
+  </span>
+);
+
+export const ProductComparison = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [newUrl, setNewUrl] = useState("");
+  const { toast } = useToast();
+  const urls = searchParams.getAll("u").slice(0, MAX_PRODUCTS);
+
+  const queries = useQueries({
+    queries: urls.map((url) => ({
+      queryKey: ["analyze-product", url],
+      queryFn: () => analyzeProduct(url),
+      staleTime: Infinity,
+      retry: false,
+    })),
+  });
+  const results = queries.map((query) => query.data);
+
+  const setUrls = (next: string[]) => {
+    const params = new URLSearchParams();
+    next.forEach((url) => params.append("u", url));
+    setSearchParams(params);
+  };
+
+  const handleAdd = () => {
+    const url = newUrl.trim();
+    if (!url) return;
+    try {
+      new URL(url);
+    } catch {
+      toast({ title: "Error", description: "Please enter a valid product URL", variant: "destructive" });
+      return;
+    }
+    if (urls.includes(url)) {
+      toast({ title: "Error", description: "This product is already in the comparison", variant: "destructive" });
+      return;
+    }
+    setUrls([...urls, url]);
+    setNewUrl("");
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link copied", description: "Share it to show this comparison." });
+    } catch {
+      toast({ title: "Error", description: "Could not copy the link", variant: "destructive" });
+    }
+  };
+
+  const radarLabels = [...new Set(results.flatMap((r) => r?.ai.category_scores?.map((s) => s.label) ?? []))];
+  const radarData = radarLabels.map((label) => {
+    const row: Record<string, string | number> = { label };
+    results.forEach((result, idx) => {
+      const score = result?.ai.category_scores?.find((s) => s.label === label)?.score;
+      if (typeof score === "number") row[`product${idx}`] = score;
+    });
+    return row;
+  });
+  const radarConfig: ChartConfig = Object.fromEntries(
+    results.map((result, idx) => [
+      `product${idx}`,
+      { label: result?.meta.title ?? `Product ${idx + 1}`, color: PRODUCT_COLORS[idx] },
+    ]),
+  );
+
+  const scoreWinner = findWinner(
+    { key: "score", label: "Score", value: (r) => r.ai.score, format: String, better: "higher" },
+    results,
+  );
+  const rows = [...ROWS, ...categoryScoreRows(results), ...CLAIM_ROWS];
+  const columns = { gridTemplateColumns: `repeat(${Math.max(urls.length, 1)}, minmax(0, 1fr))` };
+
+  return (
+    <div className="min-h-screen w-full bg-background py-8 px-4">
+      <div className="max-w-6xl mx-auto space-y-8">
+        <div className="text-center space-y-4 animate-fade-in">
+          <h1 className="text-4xl md:text-5xl font-bold text-primary">Compare Products</h1>
+          <p className="text-muted-foreground text-sm md:text-base">
+            Analyze up to {MAX_PRODUCTS} products side by side
+          </p>
+          <Link to="/" className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-primary">
+            <ArrowLeft className="h-4 w-4" /> Back to single analysis
+          </Link>
+        </div>
+
+        <Card className="p-4 md:p-6 bg-gradient-card backdrop-blur-sm border-border/50 shadow-card animate-slide-up">
+          <div className="flex flex-col md:flex-row gap-3">
+            <Input
+              placeholder={urls.length >= MAX_PRODUCTS ? "Comparison is full" : "Add a product URL..."}
+              value={newUrl}
+              disabled={urls.length >= MAX_PRODUCTS}
+              onChange={(e) => setNewUrl(e.target.value)}
+              onKeyPress={(e) => e.key === "Enter" && handleAdd()}
+              className="flex-1 bg-background/50"
+            />
+            <Button
+              onClick={handleAdd}
+              disabled={urls.length >= MAX_PRODUCTS}
+              className="bg-primary hover:bg-primary/90 w-full md:w-auto"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add
+            </Button>
+            {urls.length > 1 && (
+              <Button variant="outline" onClick={handleShare} className="w-full md:w-auto">
+                Copy link
+              </Button>
+            )}
+          </div>
+        </Card>
+
+        {urls.length > 0 && (
+          <div className="overflow-x-auto">
+            <div className="min-w-[640px] space-y-4">
+              {/* Product headers and overall scores */}
+              <div className="grid gap-4" style={columns}>
+                {urls.map((url, idx) => {
+                  const query = queries[idx];
+                  const result = results[idx];
+                  return (
+                    <Card
+                      key={url}
+                      className={`p-4 bg-gradient-card border-border/50 shadow-card flex flex-col items-center gap-3 ${
+                        scoreWinner === idx ? "border-success" : ""
+                      }`}
+                    >
+                      <div className="flex w-full justify-end">
+                        <button
+                          aria-label="Remove product"
+                          onClick={() => setUrls(urls.filter((u) => u !== url))}
+                          className="text-muted-foreground hover:text-destructive"
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                      {query.isLoading && <p className="text-sm text-muted-foreground">Analyzing...</p>}
+                      {query.isError && (
+                        <p className="text-sm text-destructive text-center">
+                          {query.error instanceof Error ? query.error.message : "Failed to analyze product"}
+                        </p>
+                      )}
+                      {result && (
+                        <>
+                          {result.meta.image && (
+                            <img
+                              src={result.meta.image}
+                              alt={result.meta.title || "Product"}
+                              className="h-32 w-auto object-contain rounded-lg"
+                            />
+                          )}
+                          <h2 className="text-sm font-semibold text-center line-clamp-3">
+                            {result.meta.title || "Product"}
+                          </h2>
+                          {result.quality && <ConfidenceBadge quality={result.quality} />}
+                          <ScoreCircle score={result.ai.score} />
+                          {scoreWinner === idx && <WinnerBadge />}
+                        </>
+                      )}
+                    </Card>
+                  );
+                })}
+              </div>
+
+              {/* Category score radar */}
+              {radarData.length > 2 && (
+                <Card className="p-4 md:p-6 bg-gradient-card border-border/50 shadow-card">
+                  <h3 className="text-lg font-semibold mb-4 text-primary text-center">Score Breakdown</h3>
+                  <ChartContainer config={radarConfig} className="mx-auto aspect-square max-h-[360px]">
+                    <RadarChart data={radarData}>
+                      <PolarGrid strokeOpacity={0.3} />
+                      <PolarAngleAxis dataKey="label" tick={{ fontSize: 11 }} />
+                      <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      {results.map((result, idx) =>
+                        result ? (
+                          <Radar
+                            key={urls[idx]}
+                            dataKey={`product${idx}`}
+                            stroke={`var(--color-product${idx})`}
+                            fill={`var(--color-product${idx})`}
+                            fillOpacity={0.15}
+                          />
+                        ) : null,
+                      )}
+                      <ChartLegend content={<ChartLegendContent />} />
+                    </RadarChart>
+                  </ChartContainer>
+                </Card>
+              )}
+
+              {/* Metric rows */}
+              {rows.map((row) => {
+                const winner = findWinner(row, results);
+                return (
+                  <div key={row.key} className="space-y-1">
+                    <h4 className="text-xs uppercase tracking-wide text-muted-foreground">{row.label}</h4>
+                    <div className="grid gap-4" style={columns}>
+                      {urls.map((url, idx) => {
+                        const result = results[idx];
+                        const value = result ? row.value(result) : null;
+                        return (
+                          <div
+                            key={url}
+                            className={`p-3 rounded-lg border bg-card/50 text-sm flex items-center justify-between ${
+                              winner === idx ? "border-success" : "border-border/50"
+                            }`}
+                          >
+                            <span>{result && typeof value === "number" ? row.format(value, result) : "—"}</span>
+                            {winner === idx && <WinnerBadge />}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                );
+              })}
+
+              {/* Pros and cons */}
+              <div className="grid gap-4" style={columns}>
+                {urls.map((url, idx) => {
+                  const result = results[idx];
+                  return (
+                    <Card key={url} className="p-4 bg-gradient-card border-border/50 shadow-card space-y-4">
+                      {result && (
+                        <>
+                          <ul className="space-y-1">
+                            {result.ai.pros.map((pro, i) => (
+                              <li key={i} className="text-xs text-foreground flex items-start gap-2">
+                                <span className="text-success">✓</span>
+                                <span>{pro.text}</span>
+                              </li>
+                            ))}
+                          </ul>
+                          <ul className="space-y-1">
+                            {result.ai.cons.map((con, i) => (
+                              <li key={i} className="text-xs text-foreground flex items-start gap-2">
+                                <span className="text-destructive">✗</span>
+                                <span>{con.text}</span>
+                              </li>
+                            ))}
+                          </ul>
+                        </>
+                      )}
+                    </Card>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { supabase } from "@/integrations/supabase/client";
+
+interface HistoryRun {
+  id: string;
+  created_at: string;
+  analyser_version: string;
+  ai_score: number;
+  sentiment_score: number | null;
+}
+
+interface PriceSnapshot {
+  id: string;
+  store: string;
+  price: number;
+  currency: string | null;
+  captured_at: string;
+}
+
+interface HistoryResponse {
+  runs: HistoryRun[];
+  prices: PriceSnapshot[];
+}
+
+type Range = "7d" | "30d" | "90d" | "all";
+
+const RANGE_DAYS: Record<Range, number | null> = { "7d": 7, "30d": 30, "90d": 90, all: null };
+
+const STORE_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(var(--success))",
+  "hsl(var(--warning))",
+  "hsl(var(--accent))",
+  "hsl(var(--destructive))",
+];
+
+const scoreConfig = {
+  score: { label: "AI score", color: "hsl(var(--primary))" },
+  sentiment: { label: "Sentiment", color: "hsl(var(--warning))" },
+} satisfies ChartConfig;
+
+const formatDate = (value: number) =>
+  new Date(value).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+interface ProductHistoryProps {
+  productId: string;
+}
+
+export const ProductHistory = ({ productId }: ProductHistoryProps) => {
+  const [range, setRange] = useState<Range>("30d");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["analysis-runs", productId, range],
+    queryFn: async () => {
+      const days = RANGE_DAYS[range];
+      const since = days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined;
+      const { data, error } = await supabase.functions.invoke<HistoryResponse>("analysis-runs", {
+        body: { product_id: productId, since, limit: 200 },
+      });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  // Chart config keys become CSS variables, so stores are keyed by index.
+  // Prices in different currencies share no axis, so each gets its own chart.
+  const priceCharts = useMemo(() => {
+    const prices = data?.prices ?? [];
+    const stores = [...new Set(prices.map((p) => p.store))];
+    const keyFor = (store: string) => `store${stores.indexOf(store)}`;
+    const currencies = [...new Set(prices.map((p) => p.currency))];
+    return currencies.map((currency) => {
+      const series = prices.filter((p) => p.currency === currency);
+      const config: ChartConfig = {};
+      [...new Set(series.map((p) => p.store))].forEach((store) => {
+        config[keyFor(store)] = { label: store, color: STORE_COLORS[stores.indexOf(store) % STORE_COLORS.length] };
+      });
+      return {
+        currency,
+        rows: series.map((p) => ({ time: new Date(p.captured_at).getTime(), [keyFor(p.store)]: p.price })),
+        config,
+        storeKeys: Object.keys(config),
+      };
+    });
+  }, [data]);
+
+  // Runs come back newest first; charts read left to right.
+  const { scoreRows, versionChanges } = useMemo(() => {
+    const runs = [...(data?.runs ?? [])].reverse();
+    return {
+      scoreRows: runs.map((run) => ({
+        time: new Date(run.created_at).getTime(),
+        score: run.ai_score,
+        sentiment: run.sentiment_score,
+      })),
+      versionChanges: runs
+        .filter((run, idx) => idx > 0 && run.analyser_version !== runs[idx - 1].analyser_version)
+        .map((run) => ({ time: new Date(run.created_at).getTime(), version: run.analyser_version })),
+    };
+  }, [data]);
+
+  return (
+    <Card className="p-4 md:p-6 bg-gradient-card backdrop-blur-sm border-border/50 shadow-card">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-primary">History</h3>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={range}
+          onValueChange={(value) => value && setRange(value as Range)}
+        >
+          {(Object.keys(RANGE_DAYS) as Range[]).map((key) => (
+            <ToggleGroupItem key={key} value={key} className="text-xs">
+              {key === "all" ? "All" : key}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {isLoading && <p className="text-sm text-muted-foreground">Loading history...</p>}
+
+      {!isLoading && scoreRows.length < 2 && (
+        <p className="text-sm text-muted-foreground">
+          Trends appear once this product has been analyzed more than once in the selected range.
+        </p>
+      )}
+
+      {priceCharts
+        .filter((chart) => chart.rows.length > 1)
+        .map((chart) => (
+          <div key={chart.currency ?? "unknown"} className="space-y-2 mb-6">
+            <h4 className="text-sm font-medium text-muted-foreground">
+              Price{chart.currency ? ` (${chart.currency})` : ""}
+            </h4>
+            <ChartContainer config={chart.config} className="h-56 w-full">
+              <LineChart data={chart.rows}>
+                <CartesianGrid vertical={false} strokeOpacity={0.2} />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  scale="time"
+                  domain={["dataMin", "dataMax"]}
+                  tickFormatter={formatDate}
+                />
+                <YAxis width={60} domain={["auto", "auto"]} />
+                <ChartTooltip
+                  content={<ChartTooltipContent labelFormatter={(_, payload) => formatDate(payload?.[0]?.payload?.time)} />}
+                />
+                {chart.storeKeys.map((key) => (
+                  <Line
+                    key={key}
+                    dataKey={key}
+                    type="stepAfter"
+                    stroke={`var(--color-${key})`}
+                    dot={{ r: 2 }}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ChartContainer>
+          </div>
+        ))}
+
+      {scoreRows.length > 1 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">AI score &amp; sentiment</h4>
+          <ChartContainer config={scoreConfig} className="h-56 w-full">
+            <LineChart data={scoreRows}>
+              <CartesianGrid vertical={false} strokeOpacity={0.2} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={formatDate}
+              />
+              <YAxis yAxisId="score" domain={[0, 100]} width={40} />
+              <YAxis yAxisId="sentiment" orientation="right" domain={[-1, 1]} width={40} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => formatDate(payload?.[0]?.payload?.time)} />}
+              />
+              {versionChanges.map((change) => (
+                <ReferenceLine
+                  key={change.time}
+                  yAxisId="score"
+                  x={change.time}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeDasharray="4 4"
+                  label={{ value: change.version, position: "top", fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+                />
+              ))}
+              <Line yAxisId="score" dataKey="score" stroke="var(--color-score)" dot={{ r: 2 }} />
+              <Line
+                yAxisId="sentiment"
+                dataKey="sentiment"
+                stroke="var(--color-sentiment)"
+                strokeDasharray="3 3"
+                dot={false}
+                connectNulls
+              />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      )}
+    </Card>
+  );
+};
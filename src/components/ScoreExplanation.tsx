@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { ScoreExplanation as ScoreExplanationData } from "@/lib/analysis";
+
+interface ScoreExplanationProps {
+  explanation: ScoreExplanationData;
+}
+
+export const ScoreExplanation = ({ explanation }: ScoreExplanationProps) => {
+  const [open, setOpen] = useState(false);
+  const usesModelScore = explanation.components.some((component) => component.key === "model");
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="w-full max-w-md mx-auto">
+      <CollapsibleTrigger className="flex w-full items-center justify-center gap-1 text-xs text-muted-foreground hover:text-primary">
+        How this score was computed
+        <ChevronDown className={`h-3 w-3 transition-transform ${open ? "rotate-180" : ""}`} />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="mt-3 space-y-3">
+        <div className="space-y-2">
+          {explanation.components.map((component) => (
+            <div
+              key={component.key}
+              className="p-3 bg-card/50 rounded-lg border border-border/50 text-sm space-y-1"
+            >
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{component.label}</span>
+                <span className="text-muted-foreground">
+                  {component.value} × {Math.round(component.weight * 100)}% ={" "}
+                  <span className="font-semibold text-foreground">{component.contribution}</span>
+                </span>
+              </div>
+              <p className="text-xs text-muted-foreground">{component.detail}</p>
+            </div>
+          ))}
+        </div>
+        {explanation.notes.length > 0 && (
+          <ul className="space-y-1">
+            {explanation.notes.map((note, idx) => (
+              <li key={idx} className="text-xs text-muted-foreground italic">
+                {note}
+              </li>
+            ))}
+          </ul>
+        )}
+        {explanation.model_score !== null && (
+          <p className="text-xs text-muted-foreground text-center">
+            {usesModelScore
+              ? `The model's own score of ${explanation.model_score} stands in for the missing category scores.`
+              : `The model alone suggested ${explanation.model_score}; it is not used in the score.`}
+          </p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
@@ -0,0 +1,62 @@
+import { Card } from "@/components/ui/card";
+import type { SentimentBreakdown as SentimentBreakdownData } from "@/lib/analysis";
+
+interface SentimentBreakdownProps {
+  breakdown: SentimentBreakdownData;
+}
+
+export const SentimentBreakdown = ({ breakdown }: SentimentBreakdownProps) => {
+  const aspects = breakdown.aspects.filter((aspect) => aspect.mentions > 0);
+  if (aspects.length === 0) return null;
+
+  return (
+    <Card className="p-4 md:p-6 bg-gradient-card backdrop-blur-sm border-border/50 shadow-card">
+      <h3 className="text-lg font-semibold mb-1 text-primary">What Reviewers Say</h3>
+      <p className="text-xs text-muted-foreground mb-4">
+        Mentions of each aspect across {breakdown.reviews} customer reviews
+      </p>
+      <div className="space-y-4">
+        {aspects.map((aspect) => {
+          const sided = aspect.positive + aspect.negative;
+          const positiveShare = sided > 0 ? (aspect.positive / sided) * 100 : 0;
+          return (
+            <div key={aspect.key} className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium">{aspect.label}</span>
+                <span className="text-xs text-muted-foreground">
+                  <span className="text-success">{aspect.positive} positive</span>
+                  {" · "}
+                  <span className="text-destructive">{aspect.negative} negative</span>
+                  {" · "}
+                  {aspect.mentions} mentions
+                </span>
+              </div>
+              <div className="flex h-2 overflow-hidden rounded-full bg-muted">
+                {sided > 0 && (
+                  <>
+                    <div className="bg-success" style={{ width: `${positiveShare}%` }} />
+                    <div className="bg-destructive" style={{ width: `${100 - positiveShare}%` }} />
+                  </>
+                )}
+              </div>
+              {aspect.quotes.length > 0 && (
+                <ul className="space-y-1">
+                  {aspect.quotes.map((quote, idx) => (
+                    <li key={idx} className="text-xs text-muted-foreground italic flex items-start gap-2">
+                      <span className={quote.polarity === "positive" ? "text-success" : "text-destructive"}>
+                        {quote.polarity === "positive" ? "+" : "−"}
+                      </span>
+                      <span>
+                        “{quote.text}”{quote.rating !== null && ` (${quote.rating}/5)`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+};
@@ -1,24 +1,39 @@
-import { ExternalLink } from "lucide-react";
+import { BadgeCheck, ExternalLink } from "lucide-react";
 
 interface StoreLinkProps {
   name: string;
   url: string;
   price?: string;
+  verified?: boolean;
+  inStock?: boolean | null;
+  cheapest?: boolean;
+  isSource?: boolean;
 }
 
-export const StoreLink = ({ name, url, price }: StoreLinkProps) => {
+export const StoreLink = ({ name, url, price, verified, inStock, cheapest, isSource }: StoreLinkProps) => {
   return (
     <a
       href={url}
       target="_blank"
       rel="noopener noreferrer"
-      className="flex items-center justify-between p-3 bg-card/50 rounded-lg border border-border/50 hover:border-primary/50 transition-all"
+      className={`flex items-center justify-between p-3 bg-card/50 rounded-lg border hover:border-primary/50 transition-all ${
+        cheapest ? "border-success" : "border-border/50"
+      }`}
     >
       <div className="flex flex-col gap-1">
-        <span className="font-medium text-sm">{name}</span>
+        <span className="font-medium text-sm flex items-center gap-1">
+          {name}
+          {verified && <BadgeCheck className="h-4 w-4 text-success" aria-label="Verified offer" />}
+          {isSource && <span className="text-xs font-normal text-muted-foreground">(analyzed page)</span>}
+        </span>
         {price && <span className="text-xs text-primary">{price}</span>}
+        {inStock === false && <span className="text-xs text-destructive">Out of stock</span>}
+        {verified === false && <span className="text-xs text-muted-foreground">Not verified</span>}
+      </div>
+      <div className="flex items-center gap-2">
+        {cheapest && <span className="text-xs font-semibold text-success">Lowest price</span>}
+        <ExternalLink className="h-4 w-4 text-muted-foreground" />
       </div>
-      <ExternalLink className="h-4 w-4 text-muted-foreground" />
     </a>
   );
 };
@@ -0,0 +1,81 @@
+import { Card } from "@/components/ui/card";
+import type { StoreOffer } from "@/lib/analysis";
+import { StoreLink } from "./StoreLink";
+
+const livePrice = (offer: StoreOffer) => (typeof offer.page_price === "number" ? offer.page_price : null);
+
+// Prices are only compared within one currency: the analyzed page's, or the
+// first priced offer's when the page had none.
+const offerCurrency = (offers: StoreOffer[]): string | null => {
+  const priced = offers.filter((offer) => livePrice(offer) !== null);
+  return (priced.find((offer) => offer.is_source) ?? priced[0])?.page_currency ?? null;
+};
+
+const comparablePrice = (offer: StoreOffer, currency: string | null) =>
+  (offer.page_currency ?? null) === currency ? livePrice(offer) : null;
+
+// Offers priced in the page's currency first, cheapest first; offers in
+// other currencies or without a live price keep their order after them.
+const sortOffers = (offers: StoreOffer[]) => {
+  const currency = offerCurrency(offers);
+  return offers
+    .map((offer, idx) => ({ offer, idx, price: comparablePrice(offer, currency) }))
+    .sort((a, b) => {
+      if (a.price !== null && b.price !== null) return a.price - b.price || a.idx - b.idx;
+      if (a.price !== null) return -1;
+      if (b.price !== null) return 1;
+      return a.idx - b.idx;
+    })
+    .map(({ offer }) => offer);
+};
+
+// The cheapest verified, in-stock offer in the page's currency.
+const cheapestOffer = (offers: StoreOffer[]): StoreOffer | null => {
+  const currency = offerCurrency(offers.filter((offer) => offer.verification === "verified"));
+  const candidates = offers.filter(
+    (offer) =>
+      offer.verification === "verified" && offer.in_stock !== false && comparablePrice(offer, currency) !== null,
+  );
+  if (candidates.length < 2) return null;
+  return candidates.reduce((best, offer) => (livePrice(offer)! < livePrice(best)! ? offer : best));
+};
+
+const formatPrice = (offer: StoreOffer) =>
+  livePrice(offer) !== null ? `${offer.page_currency ?? ""} ${livePrice(offer)!.toLocaleString()}`.trim() : offer.price;
+
+interface StoreOffersProps {
+  offers: StoreOffer[];
+}
+
+export const StoreOffers = ({ offers }: StoreOffersProps) => {
+  const sorted = sortOffers(offers);
+  const cheapest = cheapestOffer(offers);
+
+  return (
+    <Card className="p-4 md:p-6 bg-gradient-card backdrop-blur-sm border-border/50 shadow-card">
+      <h3 className="text-lg font-semibold mb-4 text-primary">Available On:</h3>
+      <div className="space-y-2">
+        {sorted.map((offer) => (
+          <StoreLink
+            key={offer.url}
+            name={offer.name}
+            url={offer.url}
+            price={formatPrice(offer)}
+            verified={offer.verification ? offer.verification === "verified" : undefined}
+            inStock={offer.in_stock}
+            cheapest={offer === cheapest}
+            isSource={offer.is_source}
+          />
+        ))}
+      </div>
+      {sorted.some((offer) => offer.fetched_at) && (
+        <p className="text-xs text-muted-foreground mt-3">
+          Live prices checked{" "}
+          {new Date(
+            Math.max(...sorted.filter((o) => o.fetched_at).map((o) => new Date(o.fetched_at!).getTime())),
+          ).toLocaleString()}
+        </p>
+      )}
+    </Card>
+  );
+};
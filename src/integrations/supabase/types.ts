@@ -14,7 +14,435 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      analysis_runs: {
+        Row: {
+          ai_score: number
+          analyser_version: string
+          analysis: Json
+          canonical_url: string
+          category: string | null
+          category_id: string | null
+          created_at: string
+          currency: string | null
+          extractor: string | null
+          fetch_strategy: string
+          http_status: number | null
+          id: string
+          model: string
+          price: number | null
+          product_id: string
+          rating: number | null
+          sentiment_score: number | null
+          status: string
+          timings: Json
+          url: string
+        }
+        Insert: {
+          ai_score: number
+          analyser_version: string
+          analysis: Json
+          canonical_url: string
+          category?: string | null
+          category_id?: string | null
+          created_at?: string
+          currency?: string | null
+          extractor?: string | null
+          fetch_strategy: string
+          http_status?: number | null
+          id?: string
+          model: string
+          price?: number | null
+          product_id: string
+          rating?: number | null
+          sentiment_score?: number | null
+          status?: string
+          timings?: Json
+          url: string
+        }
+        Update: {
+          ai_score?: number
+          analyser_version?: string
+          analysis?: Json
+          canonical_url?: string
+          category?: string | null
+          category_id?: string | null
+          created_at?: string
+          currency?: string | null
+          extractor?: string | null
+          fetch_strategy?: string
+          http_status?: number | null
+          id?: string
+          model?: string
+          price?: number | null
+          product_id?: string
+          rating?: number | null
+          sentiment_score?: number | null
+          status?: string
+          timings?: Json
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "analysis_runs_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "category_taxonomy"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "analysis_runs_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "product_inspections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      category_taxonomy: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          description: string | null
+          dimensions: Json
+          id: string
+          name: string
+          parent_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          description?: string | null
+          dimensions?: Json
+          id: string
+          name: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          description?: string | null
+          dimensions?: Json
+          id?: string
+          name?: string
+          parent_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "category_taxonomy_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "category_taxonomy"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      offers: {
+        Row: {
+          currency: string | null
+          fetched_at: string
+          id: string
+          in_stock: boolean | null
+          is_source: boolean
+          price: number | null
+          product_id: string
+          run_id: string | null
+          store: string
+          url: string
+        }
+        Insert: {
+          currency?: string | null
+          fetched_at?: string
+          id?: string
+          in_stock?: boolean | null
+          is_source?: boolean
+          price?: number | null
+          product_id: string
+          run_id?: string | null
+          store: string
+          url: string
+        }
+        Update: {
+          currency?: string | null
+          fetched_at?: string
+          id?: string
+          in_stock?: boolean | null
+          is_source?: boolean
+          price?: number | null
+          product_id?: string
+          run_id?: string | null
+          store?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offers_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "product_inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "offers_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      price_snapshots: {
+        Row: {
+          captured_at: string
+          currency: string | null
+          id: string
+          in_stock: boolean | null
+          price: number
+          product_id: string
+          run_id: string | null
+          source: string
+          store: string
+          store_url: string | null
+        }
+        Insert: {
+          captured_at?: string
+          currency?: string | null
+          id?: string
+          in_stock?: boolean | null
+          price: number
+          product_id: string
+          run_id?: string | null
+          source?: string
+          store: string
+          store_url?: string | null
+        }
+        Update: {
+          captured_at?: string
+          currency?: string | null
+          id?: string
+          in_stock?: boolean | null
+          price?: number
+          product_id?: string
+          run_id?: string | null
+          source?: string
+          store?: string
+          store_url?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "price_snapshots_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "product_inspections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "price_snapshots_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "analysis_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_inspections: {
+        Row: {
+          ai_score: number
+          analyser_version: string
+          analysis: Json | null
+          brand: string | null
+          cached_until: string
+          canonical_url: string
+          category: string | null
+          category_id: string | null
+          cons: string[]
+          created_at: string
+          currency: string | null
+          description: string | null
+          domain: string
+          fetched_at: string
+          gtin: string | null
+          id: string
+          image: string | null
+          in_stock: boolean | null
+          mpn: string | null
+          price: number | null
+          product_key: string | null
+          pros: string[]
+          rating: number | null
+          review_count: number | null
+          reviews_crawled_at: string | null
+          sentiment_score: number | null
+          short_review: string
+          sku: string | null
+          title: string | null
+          updated_at: string
+          url: string
+          variants: Json
+        }
+        Insert: {
+          ai_score: number
+          analyser_version?: string
+          analysis?: Json | null
+          brand?: string | null
+          cached_until: string
+          canonical_url: string
+          category?: string | null
+          category_id?: string | null
+          cons?: string[]
+          created_at?: string
+          currency?: string | null
+          description?: string | null
+          domain: string
+          fetched_at?: string
+          gtin?: string | null
+          id?: string
+          image?: string | null
+          in_stock?: boolean | null
+          mpn?: string | null
+          price?: number | null
+          product_key?: string | null
+          pros?: string[]
+          rating?: number | null
+          review_count?: number | null
+          reviews_crawled_at?: string | null
+          sentiment_score?: number | null
+          short_review: string
+          sku?: string | null
+          title?: string | null
+          updated_at?: string
+          url: string
+          variants?: Json
+        }
+        Update: {
+          ai_score?: number
+          analyser_version?: string
+          analysis?: Json | null
+          brand?: string | null
+          cached_until?: string
+          canonical_url?: string
+          category?: string | null
+          category_id?: string | null
+          cons?: string[]
+          created_at?: string
+          currency?: string | null
+          description?: string | null
+          domain?: string
+          fetched_at?: string
+          gtin?: string | null
+          id?: string
+          image?: string | null
+          in_stock?: boolean | null
+          mpn?: string | null
+          price?: number | null
+          product_key?: string | null
+          pros?: string[]
+          rating?: number | null
+          review_count?: number | null
+          reviews_crawled_at?: string | null
+          sentiment_score?: number | null
+          short_review?: string
+          sku?: string | null
+          title?: string | null
+          updated_at?: string
+          url?: string
+          variants?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_inspections_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "category_taxonomy"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_reviews: {
+        Row: {
+          author: string | null
+          body: string
+          collected_at: string
+          id: string
+          product_id: string
+          rating: number | null
+          review_date: string | null
+          review_key: string
+          source: string
+          title: string | null
+          verified_purchase: boolean | null
+        }
+        Insert: {
+          author?: string | null
+          body: string
+          collected_at?: string
+          id?: string
+          product_id: string
+          rating?: number | null
+          review_date?: string | null
+          review_key: string
+          source: string
+          title?: string | null
+          verified_purchase?: boolean | null
+        }
+        Update: {
+          author?: string | null
+          body?: string
+          collected_at?: string
+          id?: string
+          product_id?: string
+          rating?: number | null
+          review_date?: string | null
+          review_key?: string
+          source?: string
+          title?: string | null
+          verified_purchase?: boolean | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_reviews_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "product_inspections"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reanalysis_reports: {
+        Row: {
+          analyser_version: string
+          completed_at: string | null
+          created_at: string
+          id: string
+          items: Json
+          preview: boolean
+          selection: Json
+          summary: Json
+        }
+        Insert: {
+          analyser_version: string
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          items?: Json
+          preview: boolean
+          selection?: Json
+          summary: Json
+        }
+        Update: {
+          analyser_version?: string
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          items?: Json
+          preview?: boolean
+          selection?: Json
+          summary?: Json
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
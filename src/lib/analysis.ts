@@ -0,0 +1,86 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { AnalysisStatus } from "../../supabase/functions/_shared/ai-output.ts";
+import type {
+  AspectSentiment,
+  Claim,
+  EvidenceRef,
+  ReviewEvidence,
+  SentimentBreakdown,
+  StoreOffer,
+} from "../../supabase/functions/_shared/analysis-payload.ts";
+import type { AnalysisQuality, ConfidenceLevel } from "../../supabase/functions/_shared/analysis-quality.ts";
+import type { ModelUsage } from "../../supabase/functions/_shared/llm/types.ts";
+import type { ScoreExplanation } from "../../supabase/functions/_shared/scoring.ts";
+
+export type {
+  AnalysisQuality,
+  AnalysisStatus,
+  AspectSentiment,
+  Claim,
+  ConfidenceLevel,
+  EvidenceRef,
+  ModelUsage,
+  ReviewEvidence,
+  ScoreExplanation,
+  SentimentBreakdown,
+  StoreOffer,
+};
+
+export interface AnalysisResult {
+  url: string;
+  canonical_url?: string;
+  product_id?: string | null;
+  status?: AnalysisStatus;
+  analyser_version?: string;
+  meta: {
+    title: string | null;
+    image: string | null;
+    description: string | null;
+    price: number | null;
+    currency: string | null;
+    rating: number | null;
+    review_count?: number | null;
+    brand?: string | null;
+    sku?: string | null;
+    gtin?: string | null;
+    mpn?: string | null;
+    in_stock?: boolean | null;
+    variants?: { id: string; title: string | null; price: number | null; available: boolean | null }[];
+    extractor?: string;
+    sources?: Record<string, string>;
+  };
+  quality?: AnalysisQuality;
+  reviews?: ReviewEvidence;
+  model?: ModelUsage;
+  ai: {
+    score: number;
+    short_review: string;
+    pros: Claim[];
+    cons: Claim[];
+    sentiment_score: number;
+    score_explanation?: ScoreExplanation;
+    category?: string;
+    category_id?: string;
+    category_scores?: { key?: string; label: string; score: number; weight?: number }[];
+    stores?: StoreOffer[];
+    reviews_summary?: string;
+    sources_count?: number;
+    sentiment_breakdown?: SentimentBreakdown;
+  };
+}
+
+// Invokes the analyze-product function, throwing with the function's own
+// error message when it reports one.
+export const analyzeProduct = async (url: string): Promise<AnalysisResult> => {
+  const { data, error } = await supabase.functions.invoke<AnalysisResult>("analyze-product", {
+    body: { url: url.trim() },
+  });
+  if (error) {
+    // Non-2xx replies carry the function's own message in the body.
+    const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+    throw new Error(body?.error ?? error.message);
+  }
+  if (!data || !data.ai) throw new Error("No analysis data received. Please try again.");
+  return data;
+};
@@ -0,0 +1,7 @@
+import { ProductComparison } from "@/components/ProductComparison";
+
+const Compare = () => {
+  return <ProductComparison />;
+};
+
+export default Compare;
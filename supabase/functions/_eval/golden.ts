@@ -0,0 +1,141 @@
+// Golden-set labels and how an analysis is scored against them. Extraction
+// is scored field by field; analysis agreement on the category, the score
+// range and whether the pros and cons mention what a reviewer would expect.
+import type { AnalysisPayload } from '../_shared/analysis-payload.ts';
+
+export interface GoldenExpectation {
+  // Substring the extracted title must contain (case-insensitive).
+  title?: string;
+  price?: number | null;
+  currency?: string | null;
+  rating?: number | null;
+  review_count?: number | null;
+  brand?: string | null;
+  gtin?: string | null;
+  in_stock?: boolean | null;
+  category_id?: string;
+  // Inclusive bounds the overall score should fall within.
+  score_range?: [number, number];
+  // Topics the pros (cons) must mention, each as alternative word stems:
+  // [["battery"], ["noise cancel", "anc"]].
+  pros?: string[][];
+  cons?: string[][];
+}
+
+export interface GoldenCase {
+  id: string;
+  url: string;
+  // Saved product page, relative to the golden directory.
+  page: string;
+  expected: GoldenExpectation;
+}
+
+export interface FieldCheck {
+  field: string;
+  expected: unknown;
+  actual: unknown;
+  ok: boolean;
+}
+
+export interface CaseReport {
+  id: string;
+  ok: boolean;
+  error?: string;
+  extraction: { checks: FieldCheck[]; accuracy: number | null };
+  analysis: { checks: FieldCheck[]; agreement: number | null };
+  elapsed_ms: number;
+}
+
+export interface EvalReport {
+  created_at: string;
+  provider: string;
+  model: string | null;
+  analyser_version: string | null;
+  cases: CaseReport[];
+  // Means over the cases that completed.
+  extraction_accuracy: number | null;
+  analysis_agreement: number | null;
+  failed: number;
+}
+
+// Prices and ratings are compared to the cent and the hundredth of a star.
+const close = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+const matches = (expected: unknown, actual: unknown): boolean => {
+  if (expected === null || actual === null || actual === undefined) return expected === (actual ?? null);
+  if (typeof expected === 'number' && typeof actual === 'number') return close(expected, actual);
+  if (typeof expected === 'string' && typeof actual === 'string') {
+    return expected.trim().toLowerCase() === actual.trim().toLowerCase();
+  }
+  return expected === actual;
+};
+
+const mean = (values: number[]) =>
+  values.length ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 1000) / 1000 : null;
+
+const EXTRACTED_FIELDS = ['price', 'currency', 'rating', 'review_count', 'brand', 'gtin', 'in_stock'] as const;
+
+export const checkExtraction = (expected: GoldenExpectation, meta: AnalysisPayload['meta']): FieldCheck[] => {
+  const checks: FieldCheck[] = [];
+  if (expected.title !== undefined) {
+    checks.push({
+      field: 'title',
+      expected: expected.title,
+      actual: meta.title,
+      ok: !!meta.title && meta.title.toLowerCase().includes(expected.title.toLowerCase()),
+    });
+  }
+  for (const field of EXTRACTED_FIELDS) {
+    if (expected[field] === undefined) continue;
+    checks.push({ field, expected: expected[field], actual: meta[field], ok: matches(expected[field], meta[field]) });
+  }
+  return checks;
+};
+
+// A topic is mentioned when any claim contains one of its stems.
+const mentionChecks = (field: 'pros' | 'cons', topics: string[][], claims: { text: string }[]): FieldCheck[] =>
+  topics.map((stems) => {
+    const hit = claims.find((claim) => stems.some((stem) => claim.text.toLowerCase().includes(stem.toLowerCase())));
+    return { field: `${field}: ${stems.join(' | ')}`, expected: stems, actual: hit?.text ?? null, ok: !!hit };
+  });
+
+export const checkAnalysis = (expected: GoldenExpectation, ai: AnalysisPayload['ai']): FieldCheck[] => {
+  const checks: FieldCheck[] = [];
+  if (expected.category_id !== undefined) {
+    checks.push({
+      field: 'category_id',
+      expected: expected.category_id,
+      actual: ai.category_id ?? null,
+      ok: ai.category_id === expected.category_id,
+    });
+  }
+  if (expected.score_range) {
+    const [min, max] = expected.score_range;
+    checks.push({ field: 'score', expected: expected.score_range, actual: ai.score, ok: ai.score >= min && ai.score <= max });
+  }
+  checks.push(...mentionChecks('pros', expected.pros ?? [], ai.pros));
+  checks.push(...mentionChecks('cons', expected.cons ?? [], ai.cons));
+  return checks;
+};
+
+export const share = (checks: FieldCheck[]): number | null =>
+  checks.length ? Math.round((checks.filter((check) => check.ok).length / checks.length) * 1000) / 1000 : null;
+
+export const summarize = (
+  cases: CaseReport[],
+  run: Pick<EvalReport, 'provider' | 'model' | 'analyser_version'>,
+): EvalReport => {
+  const completed = cases.filter((report) => report.ok);
+  return {
+    created_at: new Date().toISOString(),
+    ...run,
+    cases,
+    extraction_accuracy: mean(
+      completed.map((report) => report.extraction.accuracy).filter((value): value is number => value !== null),
+    ),
+    analysis_agreement: mean(
+      completed.map((report) => report.analysis.agreement).filter((value): value is number => value !== null),
+    ),
+    failed: cases.length - completed.length,
+  };
+};
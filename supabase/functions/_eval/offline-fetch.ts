@@ -0,0 +1,44 @@
+// A `fetch` that answers from the golden set instead of the network: saved
+// pages for their URLs, the taxonomy and empty tables for the Supabase REST
+// API, and 404 for everything else. Requests to the configured local model
+// server still go out.
+import type { CategoryNode } from '../_shared/category-rubric.ts';
+
+export interface OfflineRoutes {
+  supabaseUrl: string;
+  taxonomy: CategoryNode[];
+  // Page bodies by URL.
+  pages: Map<string, string>;
+  // Origins passed through to the real network, e.g. a local LLM server.
+  passThrough: string[];
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+// Page URLs are matched without their fragment and trailing slash.
+const pageKey = (url: string) => url.replace(/#.*$/, '').replace(/\/+$/, '');
+
+export const createOfflineFetch = (routes: OfflineRoutes, networkFetch: typeof fetch): typeof fetch => {
+  const pages = new Map([...routes.pages].map(([url, body]) => [pageKey(url), body]));
+
+  return (input: Request | URL | string, init?: RequestInit): Promise<Response> => {
+    const url = new URL(input instanceof Request ? input.url : input.toString());
+    const method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+
+    if (routes.passThrough.includes(url.origin)) return networkFetch(input, init);
+
+    if (url.origin === new URL(routes.supabaseUrl).origin) {
+      if (method !== 'GET' && method !== 'HEAD') return Promise.resolve(json([], 201));
+      if (url.pathname === '/rest/v1/category_taxonomy') return Promise.resolve(json(routes.taxonomy));
+      // No cached inspections, runs or stored reviews.
+      return Promise.resolve(json([]));
+    }
+
+    const page = pages.get(pageKey(url.toString()));
+    if (page !== undefined) {
+      return Promise.resolve(new Response(page, { status: 200, headers: { 'Content-Type': 'text/html; charset=utf-8' } }));
+    }
+    return Promise.resolve(new Response('Not in the golden set', { status: 404 }));
+  };
+};
@@ -0,0 +1,137 @@
+// Golden-set evaluation: runs every labeled page in `golden/` through the
+// full analyze-product handler, offline, and scores the result against its
+// labels.
+//
+//   deno run --allow-read --allow-write --allow-env --allow-net \
+//     supabase/functions/_eval/run.ts [--provider mock|openai-compatible] \
+//     [--case <id>] [--out report.json] [--min-agreement 0.7]
+//
+// Pages come from `golden/` and the category taxonomy from the migrations'
+// seed; the database otherwise answers with empty tables and nothing is
+// written. `mock` (the default) analyses with the offline heuristic;
+// `openai-compatible` uses a local model server configured through
+// OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL, the only host the
+// run may reach. Exits non-zero when a case fails or the mean analysis
+// agreement is below `--min-agreement`.
+import type { AnalysisPayload } from '../_shared/analysis-payload.ts';
+import { type CaseReport, checkAnalysis, checkExtraction, type GoldenCase, share, summarize } from './golden.ts';
+import { createOfflineFetch } from './offline-fetch.ts';
+import { seededTaxonomy } from './seed-taxonomy.ts';
+
+const GOLDEN_DIR = new URL('./golden/', import.meta.url);
+const MIGRATIONS_DIR = new URL('../../migrations/', import.meta.url);
+const SUPABASE_URL = 'http://supabase.eval.invalid';
+const SERVICE_ROLE_KEY = 'eval-service-role';
+const PROVIDERS = ['mock', 'openai-compatible'];
+
+const option = (name: string): string | undefined => {
+  const idx = Deno.args.indexOf(`--${name}`);
+  return idx >= 0 ? Deno.args[idx + 1] : undefined;
+};
+
+const readGolden = (path: string) => Deno.readTextFile(new URL(path, GOLDEN_DIR));
+
+const pad = (value: string, width: number) => value.padEnd(width).slice(0, width);
+const percent = (value: number | null) => (value === null ? '-' : `${Math.round(value * 100)}%`);
+
+const provider = option('provider') ?? 'mock';
+if (!PROVIDERS.includes(provider)) {
+  console.error(`--provider must be one of ${PROVIDERS.join(', ')}`);
+  Deno.exit(2);
+}
+const passThrough: string[] = [];
+if (provider === 'openai-compatible') {
+  const baseUrl = Deno.env.get('OPENAI_COMPATIBLE_BASE_URL');
+  if (!baseUrl) {
+    console.error('OPENAI_COMPATIBLE_BASE_URL is required with --provider openai-compatible');
+    Deno.exit(2);
+  }
+  passThrough.push(new URL(baseUrl).origin);
+}
+const minAgreement = option('min-agreement') !== undefined ? Number(option('min-agreement')) : null;
+
+// Set before the handler loads; it reads some of them at import time.
+Deno.env.set('SUPABASE_URL', SUPABASE_URL);
+Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', SERVICE_ROLE_KEY);
+Deno.env.set('LLM_PROVIDER', provider);
+Deno.env.delete('LLM_FALLBACK_PROVIDER');
+Deno.env.delete('FIRECRAWL_API_KEY');
+
+const allCases: GoldenCase[] = JSON.parse(await readGolden('cases.json'));
+const only = option('case');
+const cases = only ? allCases.filter((goldenCase) => goldenCase.id === only) : allCases;
+if (!cases.length) {
+  console.error(`No golden case "${only}"`);
+  Deno.exit(2);
+}
+
+const taxonomy = await seededTaxonomy(MIGRATIONS_DIR);
+const pages = new Map<string, string>();
+for (const goldenCase of cases) pages.set(goldenCase.url, await readGolden(goldenCase.page));
+globalThis.fetch = createOfflineFetch({ supabaseUrl: SUPABASE_URL, taxonomy, pages, passThrough }, globalThis.fetch);
+
+const { handleAnalyzeProduct } = await import('../analyze-product/handler.ts');
+
+const reports: CaseReport[] = [];
+let model: string | null = null;
+let analyserVersion: string | null = null;
+for (const goldenCase of cases) {
+  const started = Date.now();
+  const report: CaseReport = {
+    id: goldenCase.id,
+    ok: false,
+    extraction: { checks: [], accuracy: null },
+    analysis: { checks: [], agreement: null },
+    elapsed_ms: 0,
+  };
+  try {
+    const response = await handleAnalyzeProduct(
+      new Request(`${SUPABASE_URL}/functions/v1/analyze-product`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${SERVICE_ROLE_KEY}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: goldenCase.url, preview: true, force: true }),
+      }),
+    );
+    const payload = await response.json().catch(() => null) as (AnalysisPayload & { error?: string }) | null;
+    if (response.ok && payload?.ai) {
+      const extraction = checkExtraction(goldenCase.expected, payload.meta);
+      const analysis = checkAnalysis(goldenCase.expected, payload.ai);
+      report.ok = true;
+      report.extraction = { checks: extraction, accuracy: share(extraction) };
+      report.analysis = { checks: analysis, agreement: share(analysis) };
+      model = payload.model?.model ?? model;
+      analyserVersion = payload.analyser_version ?? analyserVersion;
+    } else {
+      report.error = payload?.error ?? `analyze-product responded ${response.status}`;
+    }
+  } catch (e) {
+    report.error = e instanceof Error ? e.message : String(e);
+  }
+  report.elapsed_ms = Date.now() - started;
+  reports.push(report);
+}
+
+const result = summarize(reports, { provider, model, analyser_version: analyserVersion });
+
+console.log(`\n${pad('case', 24)} ${pad('extraction', 11)} ${pad('analysis', 9)} misses`);
+for (const report of result.cases) {
+  const misses = report.ok
+    ? [...report.extraction.checks, ...report.analysis.checks]
+      .filter((check) => !check.ok)
+      .map((check) => `${check.field} (got ${JSON.stringify(check.actual)})`)
+      .join('; ')
+    : `error: ${report.error}`;
+  console.log(
+    `${pad(report.id, 24)} ${pad(percent(report.extraction.accuracy), 11)} ${pad(percent(report.analysis.agreement), 9)} ${misses}`,
+  );
+}
+console.log(
+  `\nExtraction accuracy ${percent(result.extraction_accuracy)}, analysis agreement ${percent(result.analysis_agreement)}` +
+    `, ${result.failed} failed (${provider}${model ? `, ${model}` : ''}, analyser ${analyserVersion ?? '-'})`,
+);
+
+const out = option('out');
+if (out) await Deno.writeTextFile(out, JSON.stringify(result, null, 2) + '\n');
+
+const belowThreshold = minAgreement !== null && (result.analysis_agreement ?? 0) < minAgreement;
+Deno.exit(result.failed > 0 || belowThreshold ? 1 : 0);
@@ -0,0 +1,115 @@
+// The category taxonomy as seeded by the migrations, so the evaluation
+// scores against the same rubrics the service loads from `category_taxonomy`
+// rather than a copy that drifts from them.
+import type { CategoryNode } from '../_shared/category-rubric.ts';
+
+const INSERT = /INSERT INTO public\.category_taxonomy\s*\(([^)]*)\)\s*VALUES/gi;
+// Seed rows are only ever inserted; anything rewriting them would need
+// replaying here too.
+const REWRITE = /(UPDATE|DELETE FROM)\s+public\.category_taxonomy\b/i;
+
+type SqlValue = string | number | null;
+
+// Reads the `(...), (...)` tuples following VALUES: quoted strings (with an
+// optional `::type` cast), NULL and numbers.
+const readTuples = (sql: string, start: number): SqlValue[][] => {
+  const tuples: SqlValue[][] = [];
+  let pos = start;
+  const skipSpace = () => {
+    while (/\s/.test(sql[pos] ?? '')) pos++;
+  };
+
+  const readValue = (): SqlValue => {
+    skipSpace();
+    if (sql[pos] === "'") {
+      let text = '';
+      pos++;
+      while (pos < sql.length) {
+        if (sql[pos] === "'" && sql[pos + 1] === "'") {
+          text += "'";
+          pos += 2;
+        } else if (sql[pos] === "'") {
+          pos++;
+          break;
+        } else {
+          text += sql[pos++];
+        }
+      }
+      const cast = sql.slice(pos).match(/^::\w+/);
+      if (cast) pos += cast[0].length;
+      return text;
+    }
+    const bare = sql.slice(pos).match(/^[^,)\s]+/)?.[0] ?? '';
+    pos += bare.length;
+    if (bare.toUpperCase() === 'NULL') return null;
+    const number = Number(bare);
+    if (!bare || !Number.isFinite(number)) throw new Error(`Unexpected value in taxonomy seed: "${bare}"`);
+    return number;
+  };
+
+  for (;;) {
+    skipSpace();
+    if (sql[pos] !== '(') break;
+    pos++;
+    const tuple: SqlValue[] = [];
+    for (;;) {
+      tuple.push(readValue());
+      skipSpace();
+      const next = sql[pos++];
+      if (next === ')') break;
+      if (next !== ',') throw new Error(`Malformed taxonomy seed near "${sql.slice(pos - 20, pos + 20)}"`);
+    }
+    tuples.push(tuple);
+    skipSpace();
+    if (sql[pos] !== ',') break;
+    pos++;
+  }
+  return tuples;
+};
+
+// Postgres array literal: {"a", "b"} or {a,b}.
+const textArray = (literal: SqlValue): string[] => {
+  if (typeof literal !== 'string') return [];
+  const inner = literal.trim().replace(/^\{|\}$/g, '');
+  return [...inner.matchAll(/"((?:[^"\\]|\\.)*)"|([^,\s][^,]*)/g)].map((match) =>
+    match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2].trim()
+  );
+};
+
+// Rows of every taxonomy INSERT in the given migrations, applied in order.
+// Inserts are `ON CONFLICT (id) DO NOTHING`, so the first row for an id wins.
+export const parseTaxonomySeed = (migrations: string[]): CategoryNode[] => {
+  const nodes = new Map<string, CategoryNode>();
+  for (const sql of migrations) {
+    if (REWRITE.test(sql)) throw new Error('A migration rewrites category_taxonomy rows; replay it in seed-taxonomy.ts');
+    for (const insert of sql.matchAll(INSERT)) {
+      const columns = insert[1].split(',').map((column) => column.trim());
+      for (const tuple of readTuples(sql, (insert.index ?? 0) + insert[0].length)) {
+        const row = Object.fromEntries(columns.map((column, idx) => [column, tuple[idx] ?? null]));
+        const id = String(row.id);
+        if (nodes.has(id)) continue;
+        nodes.set(id, {
+          id,
+          parent_id: typeof row.parent_id === 'string' ? row.parent_id : null,
+          name: String(row.name),
+          aliases: textArray(row.aliases),
+          description: typeof row.description === 'string' ? row.description : null,
+          dimensions: typeof row.dimensions === 'string' ? JSON.parse(row.dimensions) : [],
+        });
+      }
+    }
+  }
+  return [...nodes.values()];
+};
+
+export const seededTaxonomy = async (migrationsDir: URL): Promise<CategoryNode[]> => {
+  const files: string[] = [];
+  for await (const entry of Deno.readDir(migrationsDir)) {
+    if (entry.isFile && entry.name.endsWith('.sql')) files.push(entry.name);
+  }
+  files.sort();
+  const migrations = await Promise.all(files.map((name) => Deno.readTextFile(new URL(name, migrationsDir))));
+  const taxonomy = parseTaxonomySeed(migrations);
+  if (!taxonomy.length) throw new Error(`No category taxonomy seed found in ${migrationsDir.pathname}`);
+  return taxonomy;
+};
@@ -0,0 +1,6 @@
+// Admin-only functions are called with the service role key (from the
+// dashboard or a team member's shell); browsers only ever hold the anon key.
+export const isAdminRequest = (req: Request): boolean => {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  return !!serviceKey && req.headers.get('Authorization') === `Bearer ${serviceKey}`;
+};
@@ -0,0 +1,222 @@
+// Schema for the model's analysis reply. This module has no imports so the
+// frontend can import it directly and share the same types.
+
+export interface AiCategoryScore {
+  key: string;
+  score: number;
+}
+
+export type ClaimImportance = 'high' | 'medium' | 'low';
+
+// A pro or con as the model states it, citing evidence by the ids listed in
+// the prompt (R1 for a review, S1 for a spec row, D1 for a description
+// sentence, P1 for the product page).
+export interface AiClaim {
+  text: string;
+  importance: ClaimImportance;
+  evidence: string[];
+}
+
+export interface AiStore {
+  name: string;
+  url: string;
+  price?: string;
+}
+
+export interface AiOutput {
+  category: string;
+  category_id: string;
+  score: number;
+  category_scores: AiCategoryScore[];
+  short_review: string;
+  pros: AiClaim[];
+  cons: AiClaim[];
+  sentiment_score: number;
+  stores: AiStore[];
+  reviews_summary: string | null;
+  sources_count: number | null;
+}
+
+// 'repaired' replies passed validation only after the repair prompt; 'failed'
+// analyses are returned to the caller but never cached.
+export type AnalysisStatus = 'ok' | 'repaired' | 'failed';
+
+export type AiValidation =
+  | { ok: true; value: AiOutput }
+  | { ok: false; errors: string[] };
+
+export interface AiValidationOptions {
+  // Allowed taxonomy ids for category_id.
+  categoryIds?: string[];
+  // Rubric dimension keys that must each be scored exactly once.
+  dimensionKeys?: string[];
+}
+
+export const MAX_PROS = 6;
+export const MAX_CONS = 2;
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isHttpUrl = (value: unknown): boolean => {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const IMPORTANCE: ClaimImportance[] = ['high', 'medium', 'low'];
+
+const claimList = (
+  raw: Json,
+  field: string,
+  min: number,
+  max: number,
+  errors: string[],
+): AiClaim[] => {
+  const value = raw[field];
+  if (!Array.isArray(value)) {
+    errors.push(`${field} must be an array of claims`);
+    return [];
+  }
+  if (value.length < min || value.length > max) {
+    errors.push(`${field} must have ${min === max ? min : `${min}-${max}`} items, got ${value.length}`);
+  }
+  const claims: AiClaim[] = [];
+  value.forEach((item, idx) => {
+    if (!isObject(item) || !isNonEmptyString(item.text)) {
+      errors.push(`${field}[${idx}] must be {"text": string, "importance": string, "evidence": [string]}`);
+      return;
+    }
+    if (!IMPORTANCE.includes(item.importance as ClaimImportance)) {
+      errors.push(`${field}[${idx}].importance must be one of: ${IMPORTANCE.join(', ')}`);
+      return;
+    }
+    if (item.evidence !== undefined && item.evidence !== null && !Array.isArray(item.evidence)) {
+      errors.push(`${field}[${idx}].evidence must be an array of evidence ids`);
+      return;
+    }
+    claims.push({
+      text: item.text.trim(),
+      importance: item.importance as ClaimImportance,
+      evidence: ((item.evidence ?? []) as unknown[]).filter(isNonEmptyString).map((id) => id.trim().toUpperCase()),
+    });
+  });
+  return claims;
+};
+
+// Strips Markdown code fences and parses the model's reply as JSON.
+export const parseAiReply = (content: unknown): { ok: true; value: unknown } | { ok: false; errors: string[] } => {
+  if (typeof content !== 'string' || !content.trim()) {
+    return { ok: false, errors: ['Reply was empty'] };
+  }
+  const cleaned = content.replace(/```json\n?|\n?```/g, '').trim();
+  try {
+    return { ok: true, value: JSON.parse(cleaned) };
+  } catch (e) {
+    return { ok: false, errors: [`Reply is not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+};
+
+export const validateAiOutput = (raw: unknown, options: AiValidationOptions = {}): AiValidation => {
+  if (!isObject(raw)) return { ok: false, errors: ['Reply must be a JSON object'] };
+  const errors: string[] = [];
+
+  if (!isNonEmptyString(raw.category)) errors.push('category must be a non-empty string');
+  if (!isNonEmptyString(raw.category_id)) {
+    errors.push('category_id must be a non-empty string');
+  } else if (options.categoryIds && !options.categoryIds.includes(raw.category_id.trim())) {
+    errors.push(`category_id must be one of: ${options.categoryIds.join(', ')}`);
+  }
+  if (!isNumberIn(raw.score, 0, 100)) errors.push('score must be a number from 0 to 100');
+  if (!isNonEmptyString(raw.short_review)) errors.push('short_review must be a non-empty string');
+  if (!isNumberIn(raw.sentiment_score, -1, 1)) errors.push('sentiment_score must be a number from -1 to 1');
+
+  const categoryScores: AiCategoryScore[] = [];
+  if (!Array.isArray(raw.category_scores)) {
+    errors.push('category_scores must be an array');
+  } else {
+    raw.category_scores.forEach((entry, idx) => {
+      if (!isObject(entry) || !isNonEmptyString(entry.key) || !isNumberIn(entry.score, 0, 100)) {
+        errors.push(`category_scores[${idx}] must be {"key": string, "score": number from 0 to 100}`);
+        return;
+      }
+      categoryScores.push({ key: entry.key, score: entry.score });
+    });
+    if (options.dimensionKeys) {
+      const keys = categoryScores.map((entry) => entry.key);
+      const missing = options.dimensionKeys.filter((key) => !keys.includes(key));
+      const unexpected = keys.filter((key) => !options.dimensionKeys!.includes(key));
+      if (missing.length) errors.push(`category_scores is missing keys: ${missing.join(', ')}`);
+      if (unexpected.length) {
+        errors.push(`category_scores has keys outside the chosen category: ${unexpected.join(', ')}`);
+      }
+      if (new Set(keys).size !== keys.length) errors.push('category_scores repeats a key');
+    }
+  }
+
+  const pros = claimList(raw, 'pros', 1, MAX_PROS, errors);
+  const cons = claimList(raw, 'cons', 1, MAX_CONS, errors);
+
+  const stores: AiStore[] = [];
+  if (raw.stores !== undefined && raw.stores !== null) {
+    if (!Array.isArray(raw.stores)) {
+      errors.push('stores must be an array');
+    } else {
+      raw.stores.forEach((entry, idx) => {
+        if (!isObject(entry) || !isNonEmptyString(entry.name) || !isHttpUrl(entry.url)) {
+          errors.push(`stores[${idx}] must have a name and an http(s) url`);
+          return;
+        }
+        if (entry.price !== undefined && entry.price !== null && typeof entry.price !== 'string') {
+          errors.push(`stores[${idx}].price must be a string`);
+          return;
+        }
+        stores.push({
+          name: entry.name,
+          url: entry.url as string,
+          ...(isNonEmptyString(entry.price) ? { price: entry.price } : {}),
+        });
+      });
+    }
+  }
+
+  if (raw.reviews_summary !== undefined && raw.reviews_summary !== null && typeof raw.reviews_summary !== 'string') {
+    errors.push('reviews_summary must be a string');
+  }
+  if (
+    raw.sources_count !== undefined &&
+    raw.sources_count !== null &&
+    !(Number.isInteger(raw.sources_count) && (raw.sources_count as number) >= 0)
+  ) {
+    errors.push('sources_count must be a non-negative integer');
+  }
+
+  if (errors.length) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      category: (raw.category as string).trim(),
+      category_id: (raw.category_id as string).trim(),
+      score: raw.score as number,
+      category_scores: categoryScores,
+      short_review: (raw.short_review as string).trim(),
+      pros,
+      cons,
+      sentiment_score: raw.sentiment_score as number,
+      stores,
+      reviews_summary: isNonEmptyString(raw.reviews_summary) ? raw.reviews_summary.trim() : null,
+      sources_count: typeof raw.sources_count === 'number' ? raw.sources_count : null,
+    },
+  };
+};
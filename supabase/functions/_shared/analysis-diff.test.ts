@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import { diffAnalyses, summarizeDiffs } from './analysis-diff.ts';
+import type { AnalysisAi } from './analysis-payload.ts';
+
+const claim = (text: string) => ({ text, importance: 'medium' as const, evidence: [] });
+
+const BEFORE: AnalysisAi = {
+  score: 72,
+  short_review: 'Good headphones.',
+  pros: [claim('Excellent noise cancelling'), claim('Long battery life')],
+  cons: [claim('Expensive')],
+  sentiment_score: 0.4,
+  category: 'Headphones',
+  category_id: 'electronics.audio',
+  category_scores: [
+    { key: 'sound', label: 'Sound', score: 80 },
+    { key: 'comfort', label: 'Comfort', score: 70 },
+  ],
+  stores: [
+    { name: 'Amazon', url: 'https://www.amazon.in/dp/B09XS7JWHH' },
+    { name: 'Croma', url: 'https://www.croma.com/p/1' },
+  ],
+};
+
+const AFTER: AnalysisAi = {
+  ...BEFORE,
+  score: 78.5,
+  sentiment_score: 0.5,
+  pros: [claim('Noise cancelling is excellent'), claim('Comfortable for long flights')],
+  cons: [claim('Expensive')],
+  category_scores: [
+    { key: 'sound', label: 'Sound quality', score: 84 },
+    { key: 'battery', label: 'Battery', score: 90 },
+  ],
+  stores: [
+    { name: 'Amazon', url: 'https://amazon.in/dp/B09XS7JWHH?tag=x' },
+    { name: 'Flipkart', url: 'https://www.flipkart.com/p/itm1' },
+  ],
+};
+
+Deno.test('analysis diff: compares scores, category scores and stores', () => {
+  const diff = diffAnalyses(BEFORE, AFTER);
+
+  assert.deepEqual(diff.score, { before: 72, after: 78.5, delta: 6.5 });
+  assert.deepEqual(diff.sentiment, { before: 0.4, after: 0.5, delta: 0.1 });
+  assert.deepEqual(diff.category, { before: 'electronics.audio', after: 'electronics.audio', changed: false });
+  assert.deepEqual(diff.category_scores, [
+    { key: 'sound', label: 'Sound quality', before: 80, after: 84, delta: 4 },
+    { key: 'comfort', label: 'Comfort', before: 70, after: null, delta: null },
+    { key: 'battery', label: 'Battery', before: null, after: 90, delta: null },
+  ]);
+  assert.deepEqual(diff.stores, { added: ['flipkart.com'], removed: ['croma.com'], kept: 1 });
+});
+
+Deno.test('analysis diff: matches reworded claims', () => {
+  const diff = diffAnalyses(BEFORE, AFTER);
+
+  assert.deepEqual(diff.pros, {
+    added: ['Comfortable for long flights'],
+    removed: ['Long battery life'],
+    kept: 1,
+  });
+  assert.deepEqual(diff.cons, { added: [], removed: [], kept: 1 });
+});
+
+Deno.test('analysis diff: compares category names when an analysis predates the taxonomy', () => {
+  const legacy = { ...BEFORE, category_id: undefined, pros: ['Excellent noise cancelling'] as unknown as AnalysisAi['pros'] };
+  const diff = diffAnalyses(legacy, AFTER);
+
+  assert.deepEqual(diff.category, { before: 'headphones', after: 'headphones', changed: false });
+  assert.equal(diff.pros.kept, 1);
+});
+
+Deno.test('analysis diff: summarizes score moves and list changes', () => {
+  const diffs = [
+    diffAnalyses(BEFORE, AFTER),
+    diffAnalyses(BEFORE, { ...BEFORE, score: 60, category_id: 'electronics.speakers' }),
+    diffAnalyses(BEFORE, { ...BEFORE, score: 72.5 }),
+  ];
+
+  assert.deepEqual(summarizeDiffs(diffs, 2), {
+    compared: 3,
+    failed: 2,
+    mean_score_delta: -1.67,
+    median_score_delta: 0.5,
+    max_abs_score_delta: 12,
+    improved: 1,
+    worsened: 1,
+    unchanged: 1,
+    category_changes: 1,
+    pros_added: 1,
+    pros_removed: 1,
+    cons_added: 0,
+    cons_removed: 0,
+    stores_added: 1,
+    stores_removed: 1,
+  });
+  assert.equal(summarizeDiffs([], 0).median_score_delta, null);
+});
@@ -0,0 +1,170 @@
+// Before/after comparison of two analyses of the same product, and summary
+// statistics over many, for reviewing a re-analysis before a new analyser
+// version is promoted.
+import type { AnalysisAi, Claim } from './analysis-payload.ts';
+import { upgradeClaims } from './claim-evidence.ts';
+
+// Claims sharing at least this share of their words count as the same claim
+// reworded.
+const SAME_CLAIM_OVERLAP = 0.5;
+// Score moves smaller than this are reported as unchanged.
+const SCORE_TOLERANCE = 1;
+
+export interface ValueChange {
+  before: number | null;
+  after: number | null;
+  delta: number | null;
+}
+
+export interface ListChange {
+  added: string[];
+  removed: string[];
+  kept: number;
+}
+
+export interface AnalysisDiff {
+  score: ValueChange;
+  sentiment: ValueChange;
+  category: { before: string | null; after: string | null; changed: boolean };
+  category_scores: (ValueChange & { key: string; label: string })[];
+  pros: ListChange;
+  cons: ListChange;
+  // Store hostnames.
+  stores: ListChange;
+}
+
+export interface DiffSummary {
+  compared: number;
+  failed: number;
+  mean_score_delta: number | null;
+  median_score_delta: number | null;
+  max_abs_score_delta: number | null;
+  improved: number;
+  worsened: number;
+  unchanged: number;
+  category_changes: number;
+  pros_added: number;
+  pros_removed: number;
+  cons_added: number;
+  cons_removed: number;
+  stores_added: number;
+  stores_removed: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const change = (before: number | null | undefined, after: number | null | undefined): ValueChange => ({
+  before: before ?? null,
+  after: after ?? null,
+  delta: before !== null && before !== undefined && after !== null && after !== undefined ? round(after - before) : null,
+});
+
+const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+
+const overlap = (a: Set<string>, b: Set<string>) => {
+  const shared = [...a].filter((word) => b.has(word)).length;
+  const union = new Set([...a, ...b]).size;
+  return union ? shared / union : 0;
+};
+
+// Pairs each new claim with the most similar unmatched old one.
+const claimChange = (before: (Claim | string)[] | undefined, after: (Claim | string)[] | undefined): ListChange => {
+  const old = upgradeClaims(before).map((claim) => ({ text: claim.text, words: words(claim.text), matched: false }));
+  const added: string[] = [];
+  for (const claim of upgradeClaims(after)) {
+    const claimWords = words(claim.text);
+    const best = old
+      .filter((entry) => !entry.matched)
+      .map((entry) => ({ entry, score: overlap(entry.words, claimWords) }))
+      .sort((a, b) => b.score - a.score)[0];
+    if (best && best.score >= SAME_CLAIM_OVERLAP) {
+      best.entry.matched = true;
+    } else {
+      added.push(claim.text);
+    }
+  }
+  return {
+    added,
+    removed: old.filter((entry) => !entry.matched).map((entry) => entry.text),
+    kept: old.filter((entry) => entry.matched).length,
+  };
+};
+
+const storeHost = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+const setChange = (before: string[], after: string[]): ListChange => {
+  const old = new Set(before);
+  const current = new Set(after);
+  return {
+    added: [...current].filter((item) => !old.has(item)),
+    removed: [...old].filter((item) => !current.has(item)),
+    kept: [...current].filter((item) => old.has(item)).length,
+  };
+};
+
+export const diffAnalyses = (before: AnalysisAi, after: AnalysisAi): AnalysisDiff => {
+  const keys = [
+    ...new Set([...(before.category_scores ?? []), ...(after.category_scores ?? [])].map((entry) => entry.key ?? entry.label)),
+  ];
+  const scoreFor = (ai: AnalysisAi, key: string) =>
+    ai.category_scores?.find((entry) => (entry.key ?? entry.label) === key);
+
+  // Results from before the taxonomy only carry the category name.
+  const bothHaveIds = !!before.category_id && !!after.category_id;
+  const categoryOf = (ai: AnalysisAi) =>
+    (bothHaveIds ? ai.category_id : ai.category ?? ai.category_id)?.toLowerCase() ?? null;
+
+  return {
+    score: change(before.score, after.score),
+    sentiment: change(before.sentiment_score, after.sentiment_score),
+    category: {
+      before: categoryOf(before),
+      after: categoryOf(after),
+      changed: categoryOf(before) !== categoryOf(after),
+    },
+    category_scores: keys.map((key) => ({
+      key,
+      label: scoreFor(after, key)?.label ?? scoreFor(before, key)?.label ?? key,
+      ...change(scoreFor(before, key)?.score, scoreFor(after, key)?.score),
+    })),
+    pros: claimChange(before.pros, after.pros),
+    cons: claimChange(before.cons, after.cons),
+    stores: setChange(
+      (before.stores ?? []).map((store) => storeHost(store.url)),
+      (after.stores ?? []).map((store) => storeHost(store.url)),
+    ),
+  };
+};
+
+export const summarizeDiffs = (diffs: AnalysisDiff[], failed: number): DiffSummary => {
+  const deltas = diffs.map((diff) => diff.score.delta).filter((delta): delta is number => delta !== null);
+  const sorted = [...deltas].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const sum = (pick: (diff: AnalysisDiff) => number) => diffs.reduce((total, diff) => total + pick(diff), 0);
+
+  return {
+    compared: diffs.length,
+    failed,
+    mean_score_delta: deltas.length ? round(deltas.reduce((total, delta) => total + delta, 0) / deltas.length) : null,
+    median_score_delta: sorted.length
+      ? round(sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2)
+      : null,
+    max_abs_score_delta: deltas.length ? Math.max(...deltas.map(Math.abs)) : null,
+    improved: deltas.filter((delta) => delta >= SCORE_TOLERANCE).length,
+    worsened: deltas.filter((delta) => delta <= -SCORE_TOLERANCE).length,
+    unchanged: deltas.filter((delta) => Math.abs(delta) < SCORE_TOLERANCE).length,
+    category_changes: diffs.filter((diff) => diff.category.changed).length,
+    pros_added: sum((diff) => diff.pros.added.length),
+    pros_removed: sum((diff) => diff.pros.removed.length),
+    cons_added: sum((diff) => diff.cons.added.length),
+    cons_removed: sum((diff) => diff.cons.removed.length),
+    stores_added: sum((diff) => diff.stores.added.length),
+    stores_removed: sum((diff) => diff.stores.removed.length),
+  };
+};
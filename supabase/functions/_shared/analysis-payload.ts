@@ -0,0 +1,169 @@
+// Response body of `analyze-product`. The same object is persisted in
+// `product_inspections.analysis` so cached and fresh responses match.
+import type { AnalysisStatus, ClaimImportance } from './ai-output.ts';
+import type { AnalysisQuality } from './analysis-quality.ts';
+import type { FieldSource, ProductVariant } from './extraction/types.ts';
+import type { ModelUsage } from './llm/types.ts';
+import type { ScoreExplanation } from './scoring.ts';
+
+export interface CategoryScore {
+  // Rubric dimension key; absent on payloads scored before the taxonomy.
+  key?: string;
+  label: string;
+  score: number;
+  weight?: number;
+}
+
+// 'verified': the store's page was fetched and is a product page for the same
+// product. 'unverified': the store is known but its page could not be checked
+// or only partly matches.
+export type OfferVerification = 'verified' | 'unverified';
+
+export interface StoreOffer {
+  name: string;
+  url: string;
+  // Price as suggested by the model.
+  price?: string;
+  // Absent on payloads cached before offers were verified.
+  verification?: OfferVerification;
+  verification_note?: string;
+  // Live price and stock read from the store's own page when it was
+  // verified, and when that page was fetched.
+  page_price?: number | null;
+  page_currency?: string | null;
+  in_stock?: boolean | null;
+  fetched_at?: string;
+  // The analyzed page itself, listed alongside the other stores.
+  is_source?: boolean;
+}
+
+// A customer review from the product page as given to the model. `id` is
+// the label the prompt used for it ("R1").
+export interface ReviewSnippet {
+  id: string;
+  rating: number | null;
+  title: string | null;
+  body: string;
+  date: string | null;
+  verified_purchase: boolean | null;
+}
+
+export interface ReviewEvidence {
+  // Reviews found on the page, before sampling.
+  found: number;
+  // The sample the reviews summary was written from.
+  items: ReviewSnippet[];
+}
+
+export type MentionPolarity = 'positive' | 'negative';
+
+export interface AspectQuote {
+  text: string;
+  polarity: MentionPolarity;
+  // Stars the reviewer gave, when known.
+  rating: number | null;
+}
+
+// How customer reviews talk about one rubric dimension. Each review counts
+// at most once per dimension.
+export interface AspectSentiment {
+  key: string;
+  label: string;
+  mentions: number;
+  positive: number;
+  negative: number;
+  // (positive - negative) / (positive + negative); null when no mention
+  // takes a side.
+  sentiment: number | null;
+  quotes: AspectQuote[];
+}
+
+export interface SentimentBreakdown {
+  version: string;
+  // Reviews read.
+  reviews: number;
+  // Mean review sentiment on a -1 to 1 scale, from star ratings where given
+  // and the review text otherwise; null without reviews.
+  overall: number | null;
+  aspects: AspectSentiment[];
+}
+
+export type EvidenceKind = 'review' | 'spec' | 'description' | 'source';
+
+// A piece of the analysed page a pro or con cites: a customer review, a row
+// of product facts, a sentence of the description or the page itself.
+export interface EvidenceRef {
+  // Id the model cited, e.g. "R3"; review ids match `reviews.items`.
+  id: string;
+  kind: EvidenceKind;
+  text: string;
+  url?: string;
+  // Stars given by the reviewer, for review evidence.
+  rating?: number | null;
+}
+
+export interface Claim {
+  text: string;
+  importance: ClaimImportance;
+  // Empty when the model cited nothing it was shown.
+  evidence: EvidenceRef[];
+}
+
+export interface AnalysisMeta {
+  title: string | null;
+  image: string | null;
+  description: string | null;
+  price: number | null;
+  currency: string | null;
+  rating: number | null;
+  review_count: number | null;
+  brand: string | null;
+  sku: string | null;
+  gtin: string | null;
+  mpn: string | null;
+  in_stock: boolean | null;
+  variants: ProductVariant[];
+  extractor?: string;
+  sources?: Partial<Record<string, FieldSource>>;
+}
+
+export interface AnalysisAi {
+  score: number;
+  short_review: string;
+  // Plain strings on payloads stored before claims cited evidence; those are
+  // stale and only read back by re-analysis, which upgrades them to claims.
+  pros: Claim[];
+  cons: Claim[];
+  // From the reviews' sentiment breakdown when there are enough reviews,
+  // else the model's estimate.
+  sentiment_score: number;
+  // Absent on payloads analysed before review text was read.
+  sentiment_breakdown?: SentimentBreakdown;
+  // How `score` was derived; absent on payloads scored by the model alone.
+  score_explanation?: ScoreExplanation;
+  category?: string;
+  category_id?: string;
+  category_scores?: CategoryScore[];
+  stores?: StoreOffer[];
+  reviews_summary?: string;
+  // Number of page reviews the summary considered; on payloads from before
+  // reviews were extracted, the model's own claim.
+  sources_count?: number;
+}
+
+export interface AnalysisPayload {
+  // Absent on payloads cached before replies were validated.
+  status?: AnalysisStatus;
+  // Analyser template that produced the payload; absent on payloads cached
+  // before templates were versioned.
+  analyser_version?: string;
+  meta: AnalysisMeta;
+  // Absent on payloads cached before quality was assessed.
+  quality?: AnalysisQuality;
+  // Absent on payloads cached before page reviews were extracted.
+  reviews?: ReviewEvidence;
+  // Model that produced `ai`, after any retries and fallbacks; absent on
+  // payloads cached before it was reported.
+  model?: ModelUsage;
+  ai: AnalysisAi;
+}
@@ -0,0 +1,91 @@
+// Named analysis templates: the prompt sent to the model and the scoring its
+// reply goes through. Any change to either ships as a new version so stored
+// results can be traced to, and refreshed from, the template behind them.
+// 'v1' marks results stored before templates were versioned; its prompt is
+// not kept.
+import type { ReviewSnippet } from './analysis-payload.ts';
+import { describeReviews } from './review-sample.ts';
+import { SCORING_VERSION } from './scoring.ts';
+
+export interface PromptInputs {
+  title: string;
+  url: string;
+  domain: string;
+  // Numbered product facts and description sentences.
+  facts: string;
+  reviews: ReviewSnippet[];
+  // Reviews collected, of which `reviews` is the sample.
+  reviews_found: number;
+  taxonomy: string;
+}
+
+export interface AnalyserTemplate {
+  version: string;
+  // Scoring logic the reply is scored with.
+  scoring: string;
+  system: string;
+  prompt: (inputs: PromptInputs) => string;
+  // Corrective follow-up when a reply fails validation.
+  repair: (errors: string[]) => string;
+}
+
+const V2: AnalyserTemplate = {
+  version: 'v2',
+  scoring: SCORING_VERSION,
+  system: 'You are a product analyst AI. Always respond with valid JSON only.',
+  prompt: (inputs) => `Analyze this product and provide:
+1. Product category (e.g., "Facewash", "Headphones", "Laptop", etc.)
+2. The taxonomy category id below that best fits the product; use "generic" if none fits
+3. Overall score (0-100)
+4. A score (0-100) for each dimension of the chosen taxonomy category, and only those
+5. Short review (2-3 sentences)
+6. 6 pros, each citing the ids of the listed evidence that supports it (none if nothing listed does)
+7. 2 cons, each citing the ids of the listed evidence that supports it (none if nothing listed does)
+8. Sentiment score (-1 to 1)
+9. Available stores (direct product page URLs for this exact product on Amazon, Flipkart, etc. - only include pages you are confident exist; every link is checked)
+10. Reviews summary of the customer reviews listed below, only if any are listed
+
+[P1] Product: ${inputs.title}
+URL: ${inputs.url}
+Domain: ${inputs.domain}
+
+${inputs.facts}
+
+Customer reviews from the product page${inputs.reviews.length > 0 ? ` (${inputs.reviews.length} of ${inputs.reviews_found}, sampled across ratings):
+${describeReviews(inputs.reviews)}` : ': none found'}
+
+Taxonomy categories (id: name, then the dimensions to score as key: label — what it measures):
+${inputs.taxonomy}
+
+Respond in JSON format only:
+{
+  "category": "string",
+  "category_id": "string (taxonomy id)",
+  "score": number (0-100),
+  "category_scores": [{"key": "string (dimension key)", "score": number}, ...] (one per dimension of category_id),
+  "short_review": "string",
+  "pros": [{"text": "string", "importance": "high" | "medium" | "low", "evidence": ["string (id such as R2, S1, D3 or P1)", ...]}, ...] (exactly 6),
+  "cons": [{"text": "string", "importance": "high" | "medium" | "low", "evidence": ["string", ...]}, ...] (exactly 2),
+  "sentiment_score": number (-1 to 1),
+  "stores": [{"name": "string", "url": "string", "price": "string"}],
+  "reviews_summary": "string (what the listed customer reviews say, including recurring complaints) or null when none are listed"
+}`,
+  repair: (errors) => `Your previous reply did not match the required JSON format:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Reply again with the complete corrected JSON object only, following the format from the first message.`,
+};
+
+export const ANALYSER_TEMPLATES: Record<string, AnalyserTemplate> = {
+  [V2.version]: V2,
+};
+
+// Results produced by any other version are stale: they are not served from
+// the cache and are picked up by re-analysis.
+export const CURRENT_ANALYSER_VERSION = V2.version;
+
+export const analyserTemplate = (version = CURRENT_ANALYSER_VERSION): AnalyserTemplate => {
+  const template = ANALYSER_TEMPLATES[version];
+  if (!template) throw new Error(`Unknown analyser version "${version}"`);
+  return template;
+};
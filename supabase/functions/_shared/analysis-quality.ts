@@ -0,0 +1,111 @@
+// How much of an analysis rests on data read from the page, and a confidence
+// level derived from it. Like ai-output.ts this module only has type imports
+// from import-free modules, so the frontend can share its types.
+import type { AnalysisStatus } from './ai-output.ts';
+
+export type FetchStrategy = 'direct' | 'firecrawl' | 'failed';
+
+// 'full': product page HTML was parsed; 'metadata': only the scraper's page
+// metadata was available; 'none': nothing was fetched.
+export type PageContent = 'full' | 'metadata' | 'none';
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export interface AnalysisQuality {
+  fetch: {
+    strategy: FetchStrategy;
+    http_status: number | null;
+    content: PageContent;
+  };
+  // Key product fields read from the page, and those not found on it.
+  fields: {
+    extracted: string[];
+    missing: string[];
+  };
+  reviews: {
+    rating: boolean;
+    review_count: number | null;
+    // Customer reviews with text read from the page; absent on payloads
+    // assessed before reviews were extracted.
+    text_count?: number;
+  };
+  ai_status: AnalysisStatus;
+  confidence: ConfidenceLevel;
+  // 0-100; `confidence` is derived from it.
+  confidence_score: number;
+  warnings: string[];
+}
+
+export interface QualityInputs {
+  strategy: FetchStrategy;
+  http_status: number | null;
+  content: PageContent;
+  // Field name → where it was read from; see ExtractedProduct.sources.
+  sources: Partial<Record<string, string>>;
+  rating: number | null;
+  review_count: number | null;
+  review_texts: number;
+  ai_status: AnalysisStatus;
+}
+
+export const KEY_FIELDS = ['title', 'description', 'image', 'price', 'rating', 'review_count', 'brand'];
+
+// Below this many reviews the rating is treated as thin evidence.
+const MIN_REVIEWS = 25;
+
+const CONTENT_POINTS: Record<PageContent, number> = { full: 40, metadata: 15, none: 0 };
+const FIELD_POINTS = 30;
+const REVIEW_POINTS = 20;
+const AI_POINTS: Record<AnalysisStatus, number> = { ok: 10, repaired: 5, failed: 0 };
+
+export const confidenceLevel = (score: number, content: PageContent): ConfidenceLevel => {
+  if (content === 'none' || score < 40) return 'low';
+  return score >= 70 ? 'high' : 'medium';
+};
+
+export const assessQuality = (inputs: QualityInputs): AnalysisQuality => {
+  const extracted = KEY_FIELDS.filter((field) => inputs.sources[field]);
+  const missing = KEY_FIELDS.filter((field) => !inputs.sources[field]);
+  const hasRating = inputs.rating !== null;
+  const reviewCount = inputs.review_count;
+
+  let reviewPoints = hasRating ? REVIEW_POINTS / 2 : 0;
+  if (reviewCount !== null && reviewCount > 0) {
+    reviewPoints += reviewCount >= MIN_REVIEWS ? REVIEW_POINTS / 2 : REVIEW_POINTS / 4;
+  }
+  const score = Math.round(
+    CONTENT_POINTS[inputs.content] +
+      (extracted.length / KEY_FIELDS.length) * FIELD_POINTS +
+      reviewPoints +
+      AI_POINTS[inputs.ai_status],
+  );
+
+  const warnings: string[] = [];
+  if (inputs.content === 'none') {
+    warnings.push(
+      `The product page could not be loaded${inputs.http_status ? ` (HTTP ${inputs.http_status})` : ''}; the analysis is based on the URL and the model's own knowledge.`,
+    );
+  } else if (inputs.content === 'metadata') {
+    warnings.push('Only the page title and summary could be read; product details were not available.');
+  }
+  if (!inputs.sources.title) warnings.push('The product name was not found on the page.');
+  if (!hasRating) {
+    warnings.push('No star rating was found, so review data could not be checked.');
+  } else if (reviewCount !== null && reviewCount < MIN_REVIEWS) {
+    warnings.push(`The rating is based on only ${reviewCount} reviews.`);
+  }
+  if (inputs.content === 'full' && inputs.review_texts === 0) {
+    warnings.push('No customer review text was found on the page, so there is no reviews summary.');
+  }
+  if (inputs.ai_status === 'repaired') warnings.push('The AI reply needed a correction pass to match the expected format.');
+
+  return {
+    fetch: { strategy: inputs.strategy, http_status: inputs.http_status, content: inputs.content },
+    fields: { extracted, missing },
+    reviews: { rating: hasRating, review_count: reviewCount, text_count: inputs.review_texts },
+    ai_status: inputs.ai_status,
+    confidence: confidenceLevel(score, inputs.content),
+    confidence_score: score,
+    warnings,
+  };
+};
@@ -0,0 +1,163 @@
+// Aspect-level sentiment from customer review text, per rubric dimension.
+// Sentences that mention a dimension are classified with a small opinion
+// lexicon (with negation), falling back to the review's star rating when the
+// sentence itself takes no side.
+import type { AspectQuote, AspectSentiment, MentionPolarity, SentimentBreakdown } from './analysis-payload.ts';
+import type { RubricDimension } from './category-rubric.ts';
+import type { ExtractedReview } from './extraction/types.ts';
+
+const VERSION = 'aspects-v1';
+
+// Below this many reviews the model's sentiment estimate is kept.
+export const MIN_SENTIMENT_REVIEWS = 5;
+
+const MAX_QUOTES_PER_SIDE = 2;
+const MAX_QUOTE_CHARS = 200;
+
+// Words reviewers use for each dimension key used in the taxonomy. Unknown
+// keys fall back to the words of the dimension's label.
+const ASPECT_TERMS: Record<string, string[]> = {
+  quality: ['quality', 'build', 'material', 'materials', 'sturdy', 'flimsy', 'solid', 'finish'],
+  build_quality: ['build', 'built', 'quality', 'sturdy', 'flimsy', 'plastic', 'solid', 'metal', 'finish'],
+  material_quality: ['material', 'fabric', 'cloth', 'stitching', 'stitch', 'quality', 'thin', 'soft'],
+  value: ['price', 'value', 'money', 'worth', 'overpriced', 'expensive', 'affordable', 'budget', 'deal'],
+  features: ['feature', 'features', 'function', 'functions', 'settings', 'modes', 'app'],
+  reliability: ['reliable', 'reliability', 'broke', 'broken', 'stopped', 'died', 'defective', 'lasted', 'months', 'faulty'],
+  durability: ['durable', 'durability', 'wear', 'tear', 'faded', 'fade', 'lasted', 'months', 'broke', 'ripped', 'sole'],
+  performance: ['performance', 'fast', 'slow', 'lag', 'laggy', 'speed', 'powerful', 'smooth', 'heating', 'works'],
+  effectiveness: ['works', 'worked', 'results', 'effective', 'difference', 'visible', 'improved', 'cleared'],
+  gentleness: ['gentle', 'harsh', 'irritation', 'irritated', 'dry', 'dryness', 'burn', 'burning', 'breakout', 'breakouts', 'sensitive'],
+  ingredients: ['ingredient', 'ingredients', 'formula', 'fragrance', 'chemicals', 'natural', 'paraben', 'sulfate'],
+  fit: ['fit', 'fits', 'fitting', 'size', 'sizing', 'tight', 'loose', 'small', 'large', 'snug'],
+  comfort: ['comfort', 'comfortable', 'uncomfortable', 'cushion', 'cushioning', 'soft', 'hurts', 'pain', 'ears', 'wear'],
+  ease_of_use: ['easy', 'difficult', 'setup', 'install', 'installation', 'controls', 'clean', 'cleaning', 'use'],
+  energy_efficiency: ['energy', 'power', 'electricity', 'bill', 'consumption', 'efficient'],
+  sound_quality: ['sound', 'audio', 'bass', 'treble', 'vocals', 'clarity', 'music', 'mids'],
+  battery_life: ['battery', 'charge', 'charging', 'backup', 'hours', 'drain', 'drains'],
+  noise_cancellation: ['noise', 'anc', 'cancellation', 'cancelling', 'canceling', 'isolation', 'outside'],
+  camera: ['camera', 'photo', 'photos', 'picture', 'pictures', 'video', 'selfie', 'lens'],
+  display: ['display', 'screen', 'brightness', 'bright', 'colors', 'colours', 'refresh', 'resolution'],
+  portability: ['weight', 'light', 'lightweight', 'heavy', 'portable', 'carry', 'compact', 'thin'],
+  picture_quality: ['picture', 'image', 'colors', 'colours', 'contrast', 'brightness', 'hdr', 'blacks', 'motion'],
+  sound: ['sound', 'speaker', 'speakers', 'audio', 'volume', 'bass'],
+  smart_features: ['apps', 'app', 'smart', 'wifi', 'os', 'interface', 'remote', 'netflix', 'youtube'],
+  cleansing: ['clean', 'cleans', 'cleansing', 'oil', 'oily', 'dirt', 'makeup', 'residue', 'lather', 'foam'],
+  skin_compatibility: ['skin', 'oily', 'dry', 'sensitive', 'combination', 'suits', 'suited', 'acne'],
+  grip: ['grip', 'traction', 'slippery', 'slip', 'slips', 'wet'],
+};
+
+const POSITIVE = new Set([
+  'good', 'great', 'excellent', 'amazing', 'awesome', 'love', 'loved', 'loves', 'perfect', 'perfectly', 'best', 'nice',
+  'comfortable', 'clear', 'crisp', 'solid', 'sturdy', 'worth', 'impressive', 'impressed', 'happy', 'recommend',
+  'fantastic', 'superb', 'decent', 'smooth', 'fast', 'easy', 'gentle', 'soft', 'durable', 'reliable', 'effective',
+  'bright', 'vibrant', 'rich', 'punchy', 'lasts', 'affordable', 'lightweight', 'well', 'satisfied', 'fine',
+]);
+
+const NEGATIVE = new Set([
+  'bad', 'poor', 'poorly', 'terrible', 'awful', 'worst', 'hate', 'hated', 'broke', 'broken', 'flimsy', 'uncomfortable',
+  'hurts', 'hurt', 'pain', 'painful', 'slow', 'lag', 'laggy', 'weak', 'disappointing', 'disappointed', 'died', 'dies',
+  'drains', 'issue', 'issues', 'problem', 'problems', 'defective', 'faulty', 'returned', 'waste', 'overpriced',
+  'cheap', 'harsh', 'irritation', 'irritated', 'burning', 'breakouts', 'tight', 'loose', 'dull', 'muffled', 'useless',
+  'stopped', 'fake', 'heavy', 'noisy', 'difficult', 'slippery', 'faded', 'ripped', 'short', 'mediocre', 'expensive',
+]);
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'hardly', 'barely', 'without', 'nothing', "isn't", "wasn't", "doesn't",
+  "don't", "didn't", "aren't", "won't", "can't", 'cannot', 'isnt', 'wasnt', 'doesnt', 'dont', 'didnt']);
+
+const tokens = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+
+const sentences = (text: string): string[] =>
+  text.split(/(?<=[.!?])\s+|\n+|;\s*/).map((sentence) => sentence.trim()).filter((sentence) => sentence.length > 3);
+
+// Opinion words in the sentence, each flipped when one of the three words
+// before it negates it: "not comfortable" counts as negative.
+const lexiconScore = (words: string[]): number =>
+  words.reduce((score, word, idx) => {
+    const polarity = POSITIVE.has(word) ? 1 : NEGATIVE.has(word) ? -1 : 0;
+    if (!polarity) return score;
+    const negated = words.slice(Math.max(0, idx - 3), idx).some((before) => NEGATIONS.has(before));
+    return score + (negated ? -polarity : polarity);
+  }, 0);
+
+const ratingPolarity = (rating: number | null): number => {
+  if (rating === null) return 0;
+  if (rating >= 4) return 1;
+  return rating <= 2 ? -1 : 0;
+};
+
+const reviewSentiment = (review: ExtractedReview): number =>
+  review.rating !== null
+    ? Math.max(-1, Math.min(1, (review.rating - 3) / 2))
+    : Math.sign(lexiconScore(tokens(`${review.title ?? ''} ${review.body}`)));
+
+const aspectTerms = (dimension: Pick<RubricDimension, 'key' | 'label'>): Set<string> =>
+  new Set([
+    ...(ASPECT_TERMS[dimension.key] ?? []),
+    ...tokens(dimension.label).filter((word) => word.length >= 4),
+  ]);
+
+const quoteText = (sentence: string) =>
+  sentence.length > MAX_QUOTE_CHARS ? `${sentence.slice(0, MAX_QUOTE_CHARS - 1).trimEnd()}…` : sentence;
+
+interface Mention {
+  polarity: MentionPolarity | null;
+  sentence: string;
+  strength: number;
+  review: ExtractedReview;
+}
+
+// The review's stance on one aspect: the sum of its matching sentences, with
+// the star rating deciding when the text is neutral.
+const mentionIn = (review: ExtractedReview, terms: Set<string>): Mention | null => {
+  const matching = sentences(review.body)
+    .map((sentence) => ({ sentence, words: tokens(sentence) }))
+    .filter(({ words }) => words.some((word) => terms.has(word)));
+  if (!matching.length) return null;
+
+  const scored = matching.map(({ sentence, words }) => ({ sentence, score: lexiconScore(words) }));
+  const total = scored.reduce((sum, entry) => sum + entry.score, 0) || ratingPolarity(review.rating);
+  const polarity: MentionPolarity | null = total > 0 ? 'positive' : total < 0 ? 'negative' : null;
+  // The sentence that best carries the stance is the quote.
+  const best = [...scored].sort((a, b) => (total >= 0 ? b.score - a.score : a.score - b.score))[0];
+  return { polarity, sentence: best.sentence, strength: Math.abs(best.score), review };
+};
+
+const pickQuotes = (mentions: Mention[], polarity: MentionPolarity): AspectQuote[] =>
+  mentions
+    .filter((mention) => mention.polarity === polarity)
+    .sort((a, b) =>
+      b.strength - a.strength ||
+      Number(!!b.review.verified_purchase) - Number(!!a.review.verified_purchase) ||
+      a.sentence.length - b.sentence.length
+    )
+    .slice(0, MAX_QUOTES_PER_SIDE)
+    .map((mention) => ({ text: quoteText(mention.sentence), polarity, rating: mention.review.rating }));
+
+export const analyzeAspects = (
+  reviews: ExtractedReview[],
+  dimensions: Pick<RubricDimension, 'key' | 'label'>[],
+): SentimentBreakdown => {
+  const aspects: AspectSentiment[] = dimensions.map((dimension) => {
+    const terms = aspectTerms(dimension);
+    const mentions = reviews
+      .map((review) => mentionIn(review, terms))
+      .filter((mention): mention is Mention => mention !== null);
+    const positive = mentions.filter((mention) => mention.polarity === 'positive').length;
+    const negative = mentions.filter((mention) => mention.polarity === 'negative').length;
+    return {
+      key: dimension.key,
+      label: dimension.label,
+      mentions: mentions.length,
+      positive,
+      negative,
+      sentiment: positive + negative > 0 ? Math.round(((positive - negative) / (positive + negative)) * 100) / 100 : null,
+      quotes: [...pickQuotes(mentions, 'positive'), ...pickQuotes(mentions, 'negative')],
+    };
+  });
+
+  const overall = reviews.length
+    ? Math.round((reviews.reduce((sum, review) => sum + reviewSentiment(review), 0) / reviews.length) * 100) / 100
+    : null;
+
+  return { version: VERSION, reviews: reviews.length, overall, aspects };
+};
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import {
+  applyCanonicalLink,
+  applyFinalUrl,
+  canonicalizeUrl,
+  isShortLink,
+  normalizeUrl,
+} from './canonical-url.ts';
+
+Deno.test('canonical url: rewrites Amazon links to the ASIN page', () => {
+  assert.deepEqual(
+    normalizeUrl('http://m.amazon.in/Sony-WH-1000XM5/dp/B09XS7JWHH/ref=sr_1_3?keywords=sony&utm_source=x#reviews'),
+    { canonical: 'https://www.amazon.in/dp/B09XS7JWHH', product_key: 'amazon.in:B09XS7JWHH' },
+  );
+  assert.deepEqual(normalizeUrl('https://smile.amazon.com/gp/product/b09xs7jwhh?psc=1'), {
+    canonical: 'https://www.amazon.com/dp/B09XS7JWHH',
+    product_key: 'amazon.com:B09XS7JWHH',
+  });
+});
+
+Deno.test('canonical url: keeps only the Flipkart pid and folds app links', () => {
+  assert.deepEqual(
+    normalizeUrl('https://dl.flipkart.com/dl/sony-wh-1000xm5/p/itmd1e5a2c7b8f9a?pid=ACCGFVHGQZHFZ3ZK&lid=LST&affid=abc'),
+    {
+      canonical: 'https://www.flipkart.com/sony-wh-1000xm5/p/itmd1e5a2c7b8f9a?pid=ACCGFVHGQZHFZ3ZK',
+      product_key: 'flipkart:ACCGFVHGQZHFZ3ZK',
+    },
+  );
+});
+
+Deno.test('canonical url: reduces Walmart, Myntra and Shopify paths to the product', () => {
+  assert.deepEqual(normalizeUrl('https://www.walmart.com/ip/Instant-Pot-Duo/42092397?athbdg=L1600'), {
+    canonical: 'https://www.walmart.com/ip/42092397',
+    product_key: 'walmart.com:42092397',
+  });
+  assert.deepEqual(normalizeUrl('https://m.myntra.com/tshirts/roadster/roadster-men-tshirt/2347689/buy?src=pla'), {
+    canonical: 'https://www.myntra.com/tshirts/roadster/roadster-men-tshirt/2347689/buy',
+    product_key: 'myntra:2347689',
+  });
+  assert.deepEqual(normalizeUrl('https://northfield.myshopify.com/collections/socks/products/merino-crew?variant=1'), {
+    canonical: 'https://northfield.myshopify.com/products/merino-crew?variant=1',
+    product_key: null,
+  });
+});
+
+Deno.test('canonical url: strips tracking parameters on other sites and sorts the rest', () => {
+  assert.deepEqual(normalizeUrl(' https://Shop.Example.com/p/sock/?utm_medium=email&size=m&fbclid=abc&color=red '), {
+    canonical: 'https://shop.example.com/p/sock?color=red&size=m',
+    product_key: null,
+  });
+});
+
+Deno.test('canonical url: recognises short links', () => {
+  assert.equal(isShortLink('https://amzn.to/3xYz'), true);
+  assert.equal(isShortLink('https://dl.flipkart.com/s/abc123'), true);
+  assert.equal(isShortLink('https://dl.flipkart.com/dl/sony/p/itm1?pid=X'), false);
+  assert.equal(isShortLink('not a url'), false);
+});
+
+Deno.test('canonical url: expands short links before normalizing', async () => {
+  const original = globalThis.fetch;
+  const requested: string[] = [];
+  globalThis.fetch = (input: string | URL | Request) => {
+    requested.push(String(input));
+    return Promise.resolve({
+      redirected: true,
+      url: 'https://www.amazon.in/Sony/dp/B09XS7JWHH?tag=deals-21',
+      body: null,
+    } as unknown as Response);
+  };
+  try {
+    assert.deepEqual(await canonicalizeUrl('https://amzn.to/3xYz'), {
+      submitted: 'https://amzn.to/3xYz',
+      canonical: 'https://www.amazon.in/dp/B09XS7JWHH',
+      product_key: 'amazon.in:B09XS7JWHH',
+    });
+    assert.deepEqual(requested, ['https://amzn.to/3xYz']);
+  } finally {
+    globalThis.fetch = original;
+  }
+});
+
+Deno.test('canonical url: adopts same-site canonical links only', async () => {
+  const current = await canonicalizeUrl('https://shop.example.com/p/sock?color=red');
+
+  assert.equal(
+    applyCanonicalLink(current, 'https://shop.example.com/products/merino-sock').canonical,
+    'https://shop.example.com/products/merino-sock',
+  );
+  assert.equal(applyCanonicalLink(current, 'https://www.amazon.in/dp/B09XS7JWHH'), current);
+  assert.equal(applyCanonicalLink(current, null), current);
+});
+
+Deno.test('canonical url: adopts the final URL of a redirected fetch', async () => {
+  const amazon = await canonicalizeUrl('https://www.amazon.in/dp/B09XS7JWHH');
+
+  assert.deepEqual(applyFinalUrl(amazon, 'https://www.amazon.in/dp/B09XS7JWHH/ref=xyz'), amazon);
+  assert.deepEqual(applyFinalUrl(amazon, 'https://www.example.com/landing?utm_source=amazon'), {
+    submitted: 'https://www.amazon.in/dp/B09XS7JWHH',
+    canonical: 'https://www.example.com/landing',
+    product_key: null,
+  });
+});
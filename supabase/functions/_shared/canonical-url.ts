@@ -0,0 +1,235 @@
+// Canonical product URLs, so tracking-tagged, shortened and mobile links to
+// the same product share one cache entry.
+import { asinFromUrl } from './extraction/extractors/amazon.ts';
+import { flipkartPid } from './extraction/extractors/flipkart.ts';
+
+export interface CanonicalUrl {
+  // URL exactly as the user submitted it.
+  submitted: string;
+  // Normalized URL used as the cache key and for fetching the page.
+  canonical: string;
+  // Retailer-scoped stable id ("amazon.in:B09XS7JWHH") when one is known.
+  product_key: string | null;
+}
+
+interface DomainRule {
+  host: RegExp;
+  // Host to rewrite mobile/regional subdomains onto.
+  preferredHost?: (hostname: string) => string;
+  // Query parameters worth keeping; everything else is dropped.
+  keepParams?: string[];
+  rewrite?: (url: URL) => { url: URL; productKey: string | null } | null;
+}
+
+const SHORT_LINK_HOSTS = [
+  /^amzn\.(to|in|eu|asia)$/,
+  /^a\.co$/,
+  /^fkrt\.(it|cc|co)$/,
+  /^myntr\.it$/,
+  /^bit\.ly$/,
+  /^tinyurl\.com$/,
+  /^t\.co$/,
+  /^rb\.gy$/,
+  /^cutt\.ly$/,
+  /^shorturl\.at$/,
+];
+
+const TRACKING_PARAMS = [
+  /^utm_/,
+  /^(fbclid|gclid|gclsrc|dclid|msclkid|yclid|twclid|igshid|srsltid)$/,
+  /^(mc_cid|mc_eid|_ga|_gl|_hsenc|_hsmi|hsCtaTracking)$/,
+  /^(ref|ref_|ref_src|referrer|source|src|spm|cmpid|campaign|trk|affid|aff_id|affiliate)$/,
+];
+
+const REDIRECT_TIMEOUT_MS = 6000;
+const MAX_REDIRECTS = 5;
+
+const DOMAIN_RULES: DomainRule[] = [
+  {
+    host: /(^|\.)amazon\.[a-z.]+$/,
+    preferredHost: (hostname) => `www.${hostname.replace(/^(m|smile|www)\./, '')}`,
+    keepParams: [],
+    rewrite: (url) => {
+      const asin = asinFromUrl(url.toString());
+      if (!asin) return null;
+      return {
+        url: new URL(`https://${url.hostname}/dp/${asin}`),
+        productKey: `${url.hostname.replace(/^www\./, '')}:${asin}`,
+      };
+    },
+  },
+  {
+    host: /(^|\.)flipkart\.com$/,
+    preferredHost: () => 'www.flipkart.com',
+    keepParams: ['pid'],
+    rewrite: (url) => {
+      // dl.flipkart.com/dl/<path> is an app deep link for www.flipkart.com/<path>.
+      if (url.pathname.startsWith('/dl/')) url.pathname = url.pathname.slice(3);
+      const pid = flipkartPid(url.toString());
+      return { url, productKey: pid ? `flipkart:${pid}` : null };
+    },
+  },
+  {
+    host: /(^|\.)myntra\.com$/,
+    preferredHost: () => 'www.myntra.com',
+    keepParams: [],
+    rewrite: (url) => {
+      const id = url.pathname.match(/\/(\d{5,})(\/buy)?\/?$/)?.[1];
+      return { url, productKey: id ? `myntra:${id}` : null };
+    },
+  },
+  {
+    host: /(^|\.)walmart\.(com|ca)$/,
+    preferredHost: (hostname) => `www.${hostname.replace(/^(m|mobile|www)\./, '')}`,
+    keepParams: [],
+    rewrite: (url) => {
+      const id = url.pathname.match(/\/ip\/(?:[^/]+\/)?(\d+)/)?.[1];
+      if (!id) return null;
+      return {
+        url: new URL(`https://${url.hostname}/ip/${id}`),
+        productKey: `${url.hostname.replace(/^www\./, '')}:${id}`,
+      };
+    },
+  },
+  {
+    host: /(^|\.)bestbuy\.(com|ca)$/,
+    preferredHost: (hostname) => `www.${hostname.replace(/^(m|www)\./, '')}`,
+    keepParams: [],
+    rewrite: (url) => {
+      const sku = url.pathname.match(/\/(\d{6,})\.p$/)?.[1] ?? url.pathname.match(/\/(\d{6,})\/?$/)?.[1];
+      return { url, productKey: sku ? `${url.hostname.replace(/^www\./, '')}:${sku}` : null };
+    },
+  },
+  {
+    // Shopify collection-scoped product paths share the /products/<handle> page.
+    host: /(^|\.)myshopify\.com$/,
+    rewrite: (url) => {
+      const handle = url.pathname.match(/\/products\/([^/?#]+)/)?.[1];
+      if (handle) url.pathname = `/products/${handle}`;
+      return { url, productKey: null };
+    },
+  },
+];
+
+export const isShortLink = (url: string): boolean => {
+  try {
+    const { hostname, pathname } = new URL(url);
+    const host = hostname.toLowerCase().replace(/^www\./, '');
+    return (
+      SHORT_LINK_HOSTS.some((pattern) => pattern.test(host)) ||
+      (host === 'dl.flipkart.com' && pathname.startsWith('/s/'))
+    );
+  } catch {
+    return false;
+  }
+};
+
+// Follows redirects and returns the final URL, or the input when the
+// shortener is unreachable.
+export const expandShortLink = async (url: string): Promise<string> => {
+  try {
+    const response = await fetch(url, {
+      redirect: 'follow',
+      headers: { 'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36' },
+      signal: AbortSignal.timeout(REDIRECT_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    return response.redirected && response.url ? response.url : url;
+  } catch (e) {
+    console.error('Short link expansion failed:', url, e);
+    return url;
+  }
+};
+
+const isTrackingParam = (name: string): boolean =>
+  TRACKING_PARAMS.some((pattern) => pattern.test(name));
+
+// Static normalization: no network access. Lowercases the host, strips
+// tracking parameters and fragments, folds mobile hosts and rewrites known
+// retailers to their stable product URL.
+export const normalizeUrl = (raw: string): { canonical: string; product_key: string | null } => {
+  let url = new URL(raw.trim());
+  url.hash = '';
+  url.hostname = url.hostname.toLowerCase();
+  if (url.protocol === 'http:') url.protocol = 'https:';
+
+  const rule = DOMAIN_RULES.find((candidate) => candidate.host.test(url.hostname));
+  if (rule?.preferredHost) url.hostname = rule.preferredHost(url.hostname);
+
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => (rule?.keepParams ? rule.keepParams.includes(name) : !isTrackingParam(name)))
+    .sort(([a], [b]) => a.localeCompare(b));
+  url.search = '';
+  for (const [name, value] of params) url.searchParams.append(name, value);
+
+  // Amazon's /ref=... path segments are tracking, not part of the product.
+  url.pathname = url.pathname.replace(/\/ref=[^/]*$/, '');
+  if (url.pathname.length > 1) url.pathname = url.pathname.replace(/\/+$/, '');
+
+  let productKey: string | null = null;
+  const rewritten = rule?.rewrite?.(url);
+  if (rewritten) {
+    url = rewritten.url;
+    productKey = rewritten.productKey;
+  }
+
+  return { canonical: url.toString(), product_key: productKey };
+};
+
+export const canonicalizeUrl = async (submitted: string): Promise<CanonicalUrl> => {
+  let target = submitted;
+  for (let hop = 0; hop < MAX_REDIRECTS && isShortLink(target); hop++) {
+    const expanded = await expandShortLink(target);
+    if (expanded === target) break;
+    target = expanded;
+  }
+  return { submitted, ...normalizeUrl(target) };
+};
+
+const isSameSite = (a: string, b: string): boolean => {
+  const [hostA, hostB] = [a, b].map((url) => new URL(url).hostname.replace(/^(www|m)\./, ''));
+  return hostA === hostB || hostA.endsWith(`.${hostB}`) || hostB.endsWith(`.${hostA}`);
+};
+
+// Adopts the page's `<link rel="canonical">` when it points at the same site;
+// cross-site canonicals are ignored so a page cannot claim another
+// retailer's cache entry. A retailer product key already derived from the
+// submitted URL is kept.
+export const applyCanonicalLink = (
+  current: CanonicalUrl,
+  canonicalLink: string | null,
+): CanonicalUrl => {
+  if (!canonicalLink) return current;
+  try {
+    const linked = normalizeUrl(canonicalLink);
+    if (!isSameSite(linked.canonical, current.canonical)) return current;
+    return {
+      submitted: current.submitted,
+      canonical: current.product_key ? current.canonical : linked.canonical,
+      product_key: current.product_key ?? linked.product_key,
+    };
+  } catch {
+    return current;
+  }
+};
+
+// Adopts the URL the page fetch was redirected to: tracking redirects and
+// retailer short links that only resolve on fetch would otherwise be cached
+// under the pre-redirect URL. Unlike a canonical link the target may be on
+// another site, since that is where the page was actually served from; the
+// submitted URL's product key only carries over within the same site.
+export const applyFinalUrl = (current: CanonicalUrl, finalUrl: string | null): CanonicalUrl => {
+  if (!finalUrl) return current;
+  try {
+    const resolved = normalizeUrl(finalUrl);
+    if (resolved.canonical === current.canonical) return current;
+    return {
+      submitted: current.submitted,
+      canonical: resolved.canonical,
+      product_key:
+        resolved.product_key ?? (isSameSite(resolved.canonical, current.canonical) ? current.product_key : null),
+    };
+  } catch {
+    return current;
+  }
+};
@@ -0,0 +1,107 @@
+// Category taxonomy and per-category scoring rubrics, read from the
+// `category_taxonomy` table. Products in the same node are scored on the same
+// dimensions so their sub-scores can be compared.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { CategoryScore } from './analysis-payload.ts';
+
+export interface RubricDimension {
+  key: string;
+  label: string;
+  // Share of the overall score; a rubric's weights sum to 1.
+  weight: number;
+  description: string;
+}
+
+export interface CategoryNode {
+  id: string;
+  parent_id: string | null;
+  name: string;
+  aliases: string[];
+  description: string | null;
+  dimensions: RubricDimension[];
+}
+
+export const GENERIC_CATEGORY_ID = 'generic';
+
+// Used when the taxonomy table is unreachable or has no generic node.
+const GENERIC_CATEGORY: CategoryNode = {
+  id: GENERIC_CATEGORY_ID,
+  parent_id: null,
+  name: 'General',
+  aliases: [],
+  description: 'Fallback rubric for products outside the taxonomy',
+  dimensions: [
+    { key: 'quality', label: 'Quality', weight: 0.3, description: 'Materials, construction and finish' },
+    { key: 'value', label: 'Value', weight: 0.25, description: 'What the product offers for its price' },
+    { key: 'features', label: 'Features', weight: 0.25, description: 'Usefulness and breadth of functionality' },
+    { key: 'reliability', label: 'Reliability', weight: 0.2, description: 'Durability and consistency reported by owners' },
+  ],
+};
+
+export const loadTaxonomy = async (supabase: SupabaseClient): Promise<CategoryNode[]> => {
+  const { data, error } = await supabase
+    .from('category_taxonomy')
+    .select('id, parent_id, name, aliases, description, dimensions');
+  if (error || !data?.length) {
+    console.error('Failed to load category taxonomy:', error);
+    return [GENERIC_CATEGORY];
+  }
+  const nodes = data as CategoryNode[];
+  return nodes.some((node) => node.id === GENERIC_CATEGORY_ID) ? nodes : [...nodes, GENERIC_CATEGORY];
+};
+
+// The node for `id` with its effective rubric: nodes without dimensions
+// inherit their nearest ancestor's. Unknown ids resolve to the generic node.
+export const resolveCategory = (taxonomy: CategoryNode[], id: string | null | undefined): CategoryNode => {
+  const byId = new Map(taxonomy.map((node) => [node.id, node]));
+  const generic = byId.get(GENERIC_CATEGORY_ID) ?? GENERIC_CATEGORY;
+  const node = (id && byId.get(id)) || generic;
+
+  const seen = new Set<string>();
+  let source: CategoryNode | undefined = node;
+  while (source && !source.dimensions?.length && source.parent_id && !seen.has(source.id)) {
+    seen.add(source.id);
+    source = byId.get(source.parent_id);
+  }
+  const dimensions = source?.dimensions?.length ? source.dimensions : generic.dimensions;
+  return { ...node, dimensions };
+};
+
+// Prompt section listing every category and the dimensions to score for it.
+export const describeTaxonomy = (taxonomy: CategoryNode[]): string =>
+  taxonomy
+    .map((node) => resolveCategory(taxonomy, node.id))
+    .map((node) => {
+      const aliases = node.aliases.length ? ` (also: ${node.aliases.join(', ')})` : '';
+      const dimensions = node.dimensions
+        .map((dimension) => `    - ${dimension.key}: ${dimension.label} — ${dimension.description}`)
+        .join('\n');
+      return `- ${node.id}: ${node.name}${aliases}\n${dimensions}`;
+    })
+    .join('\n');
+
+// Keeps only scores for the node's rubric dimensions, in rubric order, with
+// the canonical labels and weights. Scores the model returned under a label
+// instead of a key are matched case-insensitively.
+export const applyRubric = (node: CategoryNode, raw: unknown): CategoryScore[] => {
+  const entries = Array.isArray(raw) ? raw : [];
+  const scores: CategoryScore[] = [];
+  for (const dimension of node.dimensions) {
+    const match = entries.find((entry) => {
+      const name = String(entry?.key ?? entry?.label ?? '').toLowerCase();
+      return name === dimension.key || name === dimension.label.toLowerCase();
+    });
+    const score = Number(match?.score);
+    if (!match || !Number.isFinite(score)) {
+      console.warn('Missing rubric score:', node.id, dimension.key);
+      continue;
+    }
+    scores.push({
+      key: dimension.key,
+      label: dimension.label,
+      score: Math.min(100, Math.max(0, Math.round(score))),
+      weight: dimension.weight,
+    });
+  }
+  return scores;
+};
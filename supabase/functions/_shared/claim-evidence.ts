@@ -0,0 +1,80 @@
+// Evidence the model may cite for each pro and con. Everything it is shown
+// gets an id (reviews keep their R ids from the sample); cited ids are
+// resolved back to the text here, so a claim can only quote what the page
+// actually said.
+import type { AiClaim } from './ai-output.ts';
+import type { Claim, EvidenceRef, ReviewSnippet } from './analysis-payload.ts';
+import type { ExtractedProduct } from './extraction/types.ts';
+
+const MAX_DESCRIPTION_SENTENCES = 12;
+const MAX_EVIDENCE_PER_CLAIM = 3;
+
+export type EvidenceIndex = Map<string, EvidenceRef>;
+
+const specRows = (product: ExtractedProduct): string[] =>
+  [
+    product.brand && `Brand: ${product.brand}`,
+    product.price !== null && `Listed price: ${`${product.price} ${product.currency ?? ''}`.trim()}`,
+    product.rating !== null && `Rating: ${product.rating}/5 from ${product.review_count ?? 'an unknown number of'} reviews`,
+    product.in_stock !== null && `Availability: ${product.in_stock ? 'in stock' : 'out of stock'}`,
+    product.variants.length > 1 &&
+    `Variants: ${product.variants.map((variant) => variant.title).filter(Boolean).slice(0, 8).join(', ')}`,
+    product.gtin && `GTIN: ${product.gtin}`,
+    product.mpn && `Model number: ${product.mpn}`,
+  ].filter((row): row is string => typeof row === 'string' && row.length > 0);
+
+const descriptionSentences = (description: string | null): string[] =>
+  (description ?? '')
+    .split(/(?<=[.!?])\s+|\s*[\n•|]\s*/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length >= 15)
+    .slice(0, MAX_DESCRIPTION_SENTENCES);
+
+export const buildEvidence = (
+  product: ExtractedProduct,
+  reviews: ReviewSnippet[],
+  page: { url: string; title: string },
+): EvidenceIndex => {
+  const refs: EvidenceRef[] = [
+    { id: 'P1', kind: 'source', text: page.title, url: page.url },
+    ...specRows(product).map((text, idx): EvidenceRef => ({ id: `S${idx + 1}`, kind: 'spec', text })),
+    ...descriptionSentences(product.description)
+      .map((text, idx): EvidenceRef => ({ id: `D${idx + 1}`, kind: 'description', text })),
+    ...reviews.map((review): EvidenceRef => ({
+      id: review.id,
+      kind: 'review',
+      text: review.title ? `${review.title}: ${review.body}` : review.body,
+      rating: review.rating,
+    })),
+  ];
+  return new Map(refs.map((ref) => [ref.id, ref]));
+};
+
+// Prompt lines for the product facts and description; reviews are listed
+// separately with their ratings.
+export const describeFacts = (evidence: EvidenceIndex): string => {
+  const lines = (kind: EvidenceRef['kind']) =>
+    [...evidence.values()].filter((ref) => ref.kind === kind).map((ref) => `[${ref.id}] ${ref.text}`);
+  const specs = lines('spec');
+  const sentences = lines('description');
+  return [
+    `Product facts:\n${specs.length ? specs.join('\n') : 'None found'}`,
+    `Description:\n${sentences.length ? sentences.join('\n') : 'Not available'}`,
+  ].join('\n\n');
+};
+
+// Ids the model cited but was never shown are dropped.
+export const citeClaims = (claims: AiClaim[], evidence: EvidenceIndex): Claim[] =>
+  claims.map((claim) => ({
+    text: claim.text,
+    importance: claim.importance,
+    evidence: [...new Set(claim.evidence)]
+      .map((id) => evidence.get(id))
+      .filter((ref): ref is EvidenceRef => ref !== undefined)
+      .slice(0, MAX_EVIDENCE_PER_CLAIM),
+  }));
+
+// Stored payloads and flat rows from before claims cited evidence hold
+// plain strings.
+export const upgradeClaims = (items: (Claim | string)[] | null | undefined): Claim[] =>
+  (items ?? []).map((item) => (typeof item === 'string' ? { text: item, importance: 'medium', evidence: [] } : item));
@@ -0,0 +1,112 @@
+import { DOMParser } from 'npm:linkedom@0.18.12';
+
+export type Element = globalThis.Element;
+export type HTMLDocument = globalThis.Document;
+
+// linkedom implements the part of the DOM the extractors use; its own typings
+// cover less than the standard Document they are written against.
+export const parseHtml = (html: string): HTMLDocument | null =>
+  new DOMParser().parseFromString(html, 'text/html') as unknown as HTMLDocument;
+
+export const queryAll = (root: HTMLDocument | Element, selector: string): Element[] =>
+  Array.from(root.querySelectorAll(selector)) as Element[];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  trade: '™',
+  reg: '®',
+  copy: '©',
+  euro: '€',
+  pound: '£',
+  yen: '¥',
+  rupee: '₹',
+};
+
+// The DOM parser already decodes attribute and text values once; this handles
+// JSON-LD strings and double-encoded meta content (`&amp;quot;`).
+export const decodeEntities = (text: string): string => {
+  let decoded = text;
+  for (let pass = 0; pass < 2 && /&(#\d+|#x[\da-f]+|[a-z]+);/i.test(decoded); pass++) {
+    decoded = decoded.replace(/&(#\d+|#x[\da-f]+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+        return Number.isFinite(point) && point > 0 && point <= 0x10ffff
+          ? String.fromCodePoint(point)
+          : entity;
+      }
+      return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+    });
+  }
+  return decoded;
+};
+
+// Decodes entities, drops embedded markup and collapses whitespace.
+export const cleanText = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const text = decodeEntities(value)
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text || null;
+};
+
+// Base URL for relative links: `<base href>` when present, else the page URL.
+export const documentBaseUrl = (doc: HTMLDocument, pageUrl: string): string => {
+  const href = doc.querySelector('base[href]')?.getAttribute('href');
+  if (href) {
+    try {
+      return new URL(href, pageUrl).toString();
+    } catch {
+      // Malformed <base>; fall back to the page URL.
+    }
+  }
+  return pageUrl;
+};
+
+export const resolveUrl = (value: string | null | undefined, baseUrl: string): string | null => {
+  const trimmed = value?.trim();
+  if (!trimmed || trimmed.startsWith('data:') || trimmed.startsWith('javascript:')) return null;
+  try {
+    const resolved = new URL(decodeEntities(trimmed), baseUrl);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Reads `<meta>` content by property/name/itemprop, whatever the attribute order.
+export const metaContent = (doc: HTMLDocument, ...keys: string[]): string | null => {
+  const wanted = keys.map((key) => key.toLowerCase());
+  const found = new Map<string, string>();
+  for (const meta of queryAll(doc, 'meta[content]')) {
+    const key = (
+      meta.getAttribute('property') ??
+      meta.getAttribute('name') ??
+      meta.getAttribute('itemprop') ??
+      ''
+    ).toLowerCase();
+    if (wanted.includes(key) && !found.has(key)) {
+      const content = meta.getAttribute('content')?.trim();
+      if (content) found.set(key, content);
+    }
+  }
+  for (const key of wanted) {
+    const value = found.get(key);
+    if (value) return decodeEntities(value);
+  }
+  return null;
+};
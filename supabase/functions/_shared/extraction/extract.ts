@@ -0,0 +1,55 @@
+import { parseHtml } from './dom.ts';
+import { extractGeneric } from './extractors/generic.ts';
+import { findSiteExtractor } from './extractors/registry.ts';
+import { currencyForUrl } from './price.ts';
+import { dedupeReviews } from './reviews.ts';
+import { emptyExtractedProduct, type ExtractedProduct, fillFields, mergeProducts } from './types.ts';
+
+export interface ExtractOptions {
+  // Query platform product APIs (Shopify, WooCommerce) when the page is
+  // served by one. Disabled for offline runs against saved HTML.
+  platformApis?: boolean;
+}
+
+// A price without a currency is most likely in the currency of the store's
+// country TLD. Reviews gathered by several extractors are deduplicated.
+const finalize = (product: ExtractedProduct): ExtractedProduct => {
+  if (product.price !== null && product.currency === null) {
+    fillFields(product, 'url', { currency: currencyForUrl(product.url) });
+  }
+  product.reviews = dedupeReviews(product.reviews);
+  return product;
+};
+
+// Runs the matching site extractor (if any) and backfills whatever it could
+// not find from the generic structured-data extractor. Platform API data,
+// when available, takes precedence over both.
+export const extractProduct = async (
+  html: string,
+  pageUrl: string,
+  { platformApis = true }: ExtractOptions = {},
+): Promise<ExtractedProduct> => {
+  const doc = parseHtml(html);
+  if (!doc) return emptyExtractedProduct(pageUrl);
+
+  const generic = extractGeneric(doc, pageUrl);
+  const site = findSiteExtractor(pageUrl, doc);
+  if (!site) return finalize(generic);
+
+  let product = generic;
+  try {
+    product = mergeProducts(site.extract(doc, pageUrl), generic);
+  } catch (e) {
+    console.error(`Site extractor ${site.id} failed:`, e);
+  }
+
+  if (platformApis && site.fetchApi) {
+    const api = await site.fetchApi(doc, pageUrl).catch((e) => {
+      console.error(`Platform API for ${site.id} failed:`, e);
+      return null;
+    });
+    if (api) product = mergeProducts(api, product);
+  }
+
+  return finalize(product);
+};
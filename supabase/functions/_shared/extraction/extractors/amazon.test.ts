@@ -0,0 +1,52 @@
+import assert from 'node:assert/strict';
+import { extractProduct } from '../extract.ts';
+
+const PAGE_URL = 'https://www.amazon.in/Sony-WH-1000XM5-Cancelling-Headphones-Optimizer/dp/B09XS7JWHH';
+const html = await Deno.readTextFile(new URL('./fixtures/amazon.html', import.meta.url));
+
+Deno.test('amazon: reads the product from the page', async () => {
+  const product = await extractProduct(html, PAGE_URL, { platformApis: false });
+
+  assert.equal(product.extractor, 'amazon');
+  assert.equal(product.title, 'Sony WH-1000XM5 Wireless Noise Cancelling Headphones, 30 Hours Battery, Black');
+  assert.equal(product.brand, 'Sony');
+  assert.equal(product.price, 26990);
+  assert.equal(product.currency, 'INR');
+  assert.equal(product.rating, 4.4);
+  assert.equal(product.review_count, 2861);
+  assert.equal(product.sku, 'B09XS7JWHH');
+  assert.equal(product.image, 'https://m.media-amazon.com/images/I/51aXvjzcukL._SL1500_.jpg');
+  assert.equal(
+    product.description,
+    'Industry-leading noise cancellation with two processors and eight microphones. ' +
+      'Up to 30 hours of battery life with quick charging. ' +
+      'Lightweight design with soft fit leather for all-day comfort.',
+  );
+  assert.equal(product.sources.price, 'site');
+  assert.equal(product.sources.brand, 'site');
+});
+
+Deno.test('amazon: reads the embedded reviews', async () => {
+  const product = await extractProduct(html, PAGE_URL, { platformApis: false });
+
+  assert.deepEqual(product.reviews, [
+    {
+      author: 'Arjun M.',
+      rating: 5,
+      title: 'Best noise cancelling I have used',
+      body: 'The noise cancellation is superb on flights and the battery easily lasts a week of commuting.',
+      date: '2024-03-12',
+      verified_purchase: true,
+      source: 'site',
+    },
+    {
+      author: 'Priya S.',
+      rating: 3,
+      title: 'Great sound, pricey',
+      body: 'Sound is excellent but the case is bulky and the price is hard to justify.',
+      date: '2024-02-02',
+      verified_purchase: false,
+      source: 'site',
+    },
+  ]);
+});
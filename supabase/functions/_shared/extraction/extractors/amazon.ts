@@ -0,0 +1,93 @@
+import { documentBaseUrl, type HTMLDocument, queryAll } from '../dom.ts';
+import { parsePrice } from '../price.ts';
+import { htmlReviewParser, readReviews, type ReviewSelectors } from '../reviews.ts';
+import { emptyExtractedProduct, fillFields } from '../types.ts';
+import { firstAttr, firstNumber, firstText, resolveAll } from './helpers.ts';
+import type { ReviewPages, SiteExtractor } from './registry.ts';
+
+const PRICE_SELECTORS = [
+  '#corePrice_feature_div .a-price .a-offscreen',
+  '#corePriceDisplay_desktop_feature_div .a-price .a-offscreen',
+  '#apex_desktop .a-price .a-offscreen',
+  '#priceblock_dealprice',
+  '#priceblock_ourprice',
+  '#price_inside_buybox',
+];
+
+const REVIEW_SELECTORS: ReviewSelectors = {
+  item: '[data-hook="review"]',
+  body: '[data-hook="review-body"] span, [data-hook="review-body"]',
+  // The title link also holds the star rating; its own text is the last span.
+  title: '[data-hook="review-title"] > span',
+  author: '.a-profile-name',
+  rating: '[data-hook="review-star-rating"], [data-hook="cmps-review-star-rating"]',
+  // "Reviewed in India on 12 March 2024"
+  date: '[data-hook="review-date"]',
+  verified: '[data-hook="avp-badge"]',
+};
+
+// Amazon's regional storefronts; store verification links to the same set.
+export const AMAZON_HOST =
+  /(^|\.)amazon\.(com|in|co\.uk|de|fr|it|es|nl|ca|com\.au|co\.jp|com\.mx|com\.br|se|pl|sg|ae|sa|com\.tr)$/;
+
+export const asinFromUrl = (url: string): string | null =>
+  url.match(/\/(?:dp|gp\/product|gp\/aw\/d|product)\/([A-Z0-9]{10})(?:[/?]|$)/i)?.[1].toUpperCase() ?? null;
+
+// "Visit the Sony Store" / "Brand: Sony" → "Sony"
+const cleanByline = (text: string | null): string | null =>
+  text?.replace(/^(visit the|brand:|marke:|marque\s*:)\s*/i, '').replace(/\s+store$/i, '').trim() || null;
+
+const extract = (doc: HTMLDocument, pageUrl: string) => {
+  const product = emptyExtractedProduct(pageUrl, 'amazon');
+  // amazon.com prices in USD; regional stores fall back to their TLD.
+  const isUs = new URL(pageUrl).hostname.endsWith('.com');
+  const price = parsePrice(firstText(doc, PRICE_SELECTORS), { url: pageUrl, currency: isUs ? 'USD' : null });
+  const ratingText = firstAttr(doc, ['#acrPopover'], 'title') ??
+    firstText(doc, ['#acrPopover .a-icon-alt', '[data-hook="rating-out-of-text"]']);
+  const bullets = queryAll(doc, '#feature-bullets li span.a-list-item')
+    .map((li) => li.textContent.trim())
+    .filter(Boolean);
+
+  fillFields(product, 'site', {
+    title: firstText(doc, ['#productTitle', '#title']),
+    description: bullets.length > 0 ? bullets.join(' ') : firstText(doc, ['#productDescription']),
+    price: price.amount,
+    currency: price.amount !== null ? price.currency : null,
+    rating: firstNumber(ratingText),
+    review_count: firstNumber(firstText(doc, ['#acrCustomerReviewText'])),
+    brand: cleanByline(firstText(doc, ['#bylineInfo'])),
+    sku: firstAttr(doc, ['input#ASIN', 'input[name="ASIN"]'], 'value') ?? asinFromUrl(pageUrl),
+  });
+
+  product.images = resolveAll(
+    [
+      firstAttr(doc, ['#landingImage', '#imgBlkFront'], 'data-old-hires'),
+      firstAttr(doc, ['#landingImage', '#imgBlkFront', '#imgTagWrapperId img'], 'src'),
+    ],
+    documentBaseUrl(doc, pageUrl),
+  );
+  if (product.images.length > 0) fillFields(product, 'site', { image: product.images[0] });
+  product.reviews = readReviews(doc, REVIEW_SELECTORS, 'site');
+
+  return product;
+};
+
+// amazon.<tld>/product-reviews/<ASIN>, newest first. Amazon puts bot walls
+// up quickly, so only a few pages are read.
+const reviewPages = (doc: HTMLDocument, pageUrl: string): ReviewPages | null => {
+  const asin = firstAttr(doc, ['input#ASIN', 'input[name="ASIN"]'], 'value') ?? asinFromUrl(pageUrl);
+  if (!asin) return null;
+  const { origin } = new URL(pageUrl);
+  return {
+    maxPages: 3,
+    url: (page) => `${origin}/product-reviews/${asin}/?pageNumber=${page}&sortBy=recent`,
+    parse: htmlReviewParser(REVIEW_SELECTORS),
+  };
+};
+
+export const amazonExtractor: SiteExtractor = {
+  id: 'amazon',
+  hosts: [AMAZON_HOST],
+  extract,
+  reviewPages,
+};
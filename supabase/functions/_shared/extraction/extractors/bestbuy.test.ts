@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { parseHtml } from '../dom.ts';
+import { extractProduct } from '../extract.ts';
+import { bestBuyExtractor } from './bestbuy.ts';
+
+const PAGE_URL = 'https://www.bestbuy.com/site/apple-airpods-pro-2-usb-c-white/6447382.p?skuId=6447382';
+const html = await Deno.readTextFile(new URL('./fixtures/bestbuy.html', import.meta.url));
+
+Deno.test('bestbuy: reads the product from the page', async () => {
+  const product = await extractProduct(html, PAGE_URL, { platformApis: false });
+
+  assert.equal(product.extractor, 'bestbuy');
+  assert.equal(product.title, 'Apple - AirPods Pro 2 (USB-C) - White');
+  assert.equal(product.price, 189.99);
+  assert.equal(product.currency, 'USD');
+  assert.equal(product.rating, 4.8);
+  assert.equal(product.review_count, 23417);
+  assert.equal(product.sku, '6447382');
+  assert.equal(product.mpn, 'MTJV3AM/A');
+  assert.equal(
+    product.image,
+    'https://pisces.bbystatic.com/image2/BestBuy_US/images/products/6447/6447382_sd.jpg;maxHeight=640;maxWidth=550',
+  );
+  assert.equal(product.sources.price, 'site');
+});
+
+Deno.test('bestbuy: reads the embedded reviews', async () => {
+  const product = await extractProduct(html, PAGE_URL, { platformApis: false });
+
+  assert.deepEqual(product.reviews, [
+    {
+      author: 'MikeT',
+      rating: 5,
+      title: 'Noise cancelling is a game changer',
+      body: 'Fit is secure during runs and the transparency mode sounds natural.',
+      date: '2024-02-18',
+      verified_purchase: true,
+      source: 'site',
+    },
+    {
+      author: 'Dana',
+      rating: 3,
+      title: 'Case scratches easily',
+      body: 'Sound is great but the charging case picked up scratches within a week.',
+      date: '2024-01-07',
+      verified_purchase: false,
+      source: 'site',
+    },
+  ]);
+});
+
+Deno.test('bestbuy: pages reviews on bestbuy.com only', () => {
+  const doc = parseHtml(html)!;
+
+  assert.equal(
+    bestBuyExtractor.reviewPages!(doc, PAGE_URL)?.url(3, null),
+    'https://www.bestbuy.com/site/reviews/apple-airpods-pro-2-usb-c-white/6447382?page=3',
+  );
+  assert.equal(
+    bestBuyExtractor.reviewPages!(doc, 'https://www.bestbuy.ca/en-ca/product/apple-airpods-pro-2/17155014'),
+    null,
+  );
+});
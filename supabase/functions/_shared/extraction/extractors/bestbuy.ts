@@ -0,0 +1,70 @@
+import { documentBaseUrl, type HTMLDocument } from '../dom.ts';
+import { parsePrice } from '../price.ts';
+import { htmlReviewParser, readReviews, type ReviewSelectors } from '../reviews.ts';
+import { emptyExtractedProduct, fillFields } from '../types.ts';
+import { firstAttr, firstNumber, firstText, resolveAll } from './helpers.ts';
+import type { ReviewPages, SiteExtractor } from './registry.ts';
+
+const REVIEW_SELECTORS: ReviewSelectors = {
+  item: '.review-item, [data-automation="review-item"]',
+  body: '.ugc-review-body, [data-automation="review-body"]',
+  title: '.review-title, [data-automation="review-title"]',
+  author: '.ugc-author strong, [data-automation="review-author"]',
+  // "Rated 5 out of 5 stars"
+  rating: '.c-ratings-reviews .visually-hidden, .c-reviews .sr-only',
+  // The exact timestamp is in the title; the text is relative ("3 weeks ago").
+  date: '.submission-date',
+  verified: '.ugc-verified-purchase, [data-automation="verified-purchase"]',
+};
+
+const extract = (doc: HTMLDocument, pageUrl: string) => {
+  const product = emptyExtractedProduct(pageUrl, 'bestbuy');
+  const isCanada = new URL(pageUrl).hostname.endsWith('.ca');
+  const price = parsePrice(
+    firstText(doc, [
+      '[data-testid="customer-price"] span',
+      '.priceView-customer-price span',
+      '[data-automation="product-price"] span',
+    ]),
+    { currency: isCanada ? 'CAD' : 'USD' },
+  );
+
+  fillFields(product, 'site', {
+    title: firstText(doc, ['.sku-title h1', 'h1.heading-5', 'h1[class*="productName"]', 'h1']),
+    price: price.amount,
+    currency: price.amount !== null ? price.currency : null,
+    rating: firstNumber(firstText(doc, ['.ugc-c-review-average', '[data-automation="rating-average"]'])),
+    review_count: firstNumber(firstText(doc, ['.c-reviews', '[data-automation="rating-count"]'])),
+    sku: firstText(doc, ['.sku .product-data-value', '[data-automation="sku"] span']),
+    mpn: firstText(doc, ['.model .product-data-value', '[data-automation="model"] span']),
+  });
+
+  product.images = resolveAll(
+    [firstAttr(doc, ['img.primary-image', '[data-testid="media-gallery"] img', 'img[class*="productImage"]'], 'src')],
+    documentBaseUrl(doc, pageUrl),
+  );
+  if (product.images.length > 0) fillFields(product, 'site', { image: product.images[0] });
+  product.reviews = readReviews(doc, REVIEW_SELECTORS, 'site');
+
+  return product;
+};
+
+// bestbuy.com/site/<slug>/<sku>.p → bestbuy.com/site/reviews/<slug>/<sku>.
+// Best Buy Canada loads reviews from an authenticated API and is skipped.
+const reviewPages = (_doc: HTMLDocument, pageUrl: string): ReviewPages | null => {
+  const { origin, pathname } = new URL(pageUrl);
+  const match = pathname.match(/^\/site\/([^/]+)\/(\d+)\.p/);
+  if (!match || !origin.endsWith('.com')) return null;
+  return {
+    maxPages: 5,
+    url: (page) => `${origin}/site/reviews/${match[1]}/${match[2]}?page=${page}`,
+    parse: htmlReviewParser(REVIEW_SELECTORS),
+  };
+};
+
+export const bestBuyExtractor: SiteExtractor = {
+  id: 'bestbuy',
+  hosts: [/(^|\.)bestbuy\.(com|ca)$/],
+  extract,
+  reviewPages,
+};
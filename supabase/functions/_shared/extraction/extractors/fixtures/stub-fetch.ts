@@ -0,0 +1,15 @@
+// Replaces the global fetch for platform API tests: serves the given bodies
+// by URL, 404s everything else and records every requested URL. Call
+// restore() when done.
+export const stubFetch = (bodies: Record<string, string>) => {
+  const requested: string[] = [];
+  const original = globalThis.fetch;
+  globalThis.fetch = (input: string | URL | Request) => {
+    const url = input instanceof Request ? input.url : String(input);
+    requested.push(url);
+    return Promise.resolve(
+      url in bodies ? new Response(bodies[url], { status: 200 }) : new Response('Not Found', { status: 404 }),
+    );
+  };
+  return { requested, restore: () => (globalThis.fetch = original) };
+};
@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { parseHtml } from '../dom.ts';
+import { extractProduct } from '../extract.ts';
+import { flipkartExtractor } from './flipkart.ts';
+
+const PAGE_URL = 'https://www.flipkart.com/apple-iphone-15-blue-128-gb/p/itmbf14ef54f645d?pid=MOBGTAGPNMZA5PU5';
+const html = await Deno.readTextFile(new URL('./fixtures/flipkart.html', import.meta.url));
+
+Deno.test('flipkart: reads the product from the page', async () => {
+  const product = await extractProduct(html, PAGE_URL, { platformApis: false });
+
+  assert.equal(product.extractor, 'flipkart');
+  assert.equal(product.title, 'Apple iPhone 15 (Blue, 128 GB)');
+  assert.equal(product.price, 65999);
+  assert.equal(product.currency, 'INR');
+  assert.equal(product.rating, 4.6);
+  assert.equal(product.review_count, 214380);
+  assert.equal(product.sku, 'MOBGTAGPNMZA5PU5');
+  assert.equal(
+    product.image,
+    'https://rukminim2.flixcart.com/image/416/416/xif0q/mobile/h/d/9/-original-imagtc2qzgnnuhxh.jpeg?q=70&crop=false',
+  );
+  assert.equal(product.canonical_url, 'https://www.flipkart.com/apple-iphone-15-blue-128-gb/p/itmbf14ef54f645d');
+  assert.equal(product.sources.price, 'site');
+  assert.equal(product.sources.title, 'site');
+});
+
+Deno.test('flipkart: pages through and parses the review listing', async () => {
+  const reviews = flipkartExtractor.reviewPages!(parseHtml(html)!, PAGE_URL)!;
+  const listing = await Deno.readTextFile(new URL('./fixtures/flipkart-reviews.html', import.meta.url));
+
+  assert.equal(
+    reviews.url(2, null),
+    'https://www.flipkart.com/apple-iphone-15-blue-128-gb/product-reviews/itmbf14ef54f645d?pid=MOBGTAGPNMZA5PU5&page=2',
+  );
+  assert.deepEqual(reviews.parse(listing), [
+    {
+      author: 'Rohit Kumar',
+      rating: 5,
+      title: 'Terrific purchase',
+      body: 'Camera is brilliant in daylight and the battery comfortably lasts a full day.',
+      date: null,
+      verified_purchase: true,
+      source: 'site',
+    },
+    {
+      author: 'Flipkart Customer',
+      rating: 2,
+      title: 'Heats up',
+      body: 'Gets warm while gaming and charging is slow with the bundled cable.',
+      date: null,
+      verified_purchase: false,
+      source: 'site',
+    },
+  ]);
+});
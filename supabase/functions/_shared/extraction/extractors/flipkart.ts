@@ -0,0 +1,76 @@
+import { documentBaseUrl, type HTMLDocument } from '../dom.ts';
+import { parsePrice } from '../price.ts';
+import { htmlReviewParser, type ReviewSelectors } from '../reviews.ts';
+import { emptyExtractedProduct, fillFields } from '../types.ts';
+import { firstAttr, firstNumber, firstText, resolveAll } from './helpers.ts';
+import type { ReviewPages, SiteExtractor } from './registry.ts';
+
+// Flipkart ships obfuscated class names that rotate with each redesign; the
+// current and previous generations are both listed.
+const TITLE_SELECTORS = ['h1 span.VU-ZEz', 'span.B_NuCI', 'h1.yhB1nd span', 'h1'];
+const PRICE_SELECTORS = ['div.Nx9bqj.CxhGGd', 'div._30jeq3._16Jk6d', 'div.Nx9bqj', 'div._30jeq3'];
+const RATING_SELECTORS = ['div.XQDdHH', 'div._3LWZlK'];
+const REVIEW_COUNT_SELECTORS = ['span.Wphh3N', 'span._2_R_DZ'];
+const IMAGE_SELECTORS = ['img.DByuf4', 'img._396cs4', 'img._2r_T1I'];
+// Review cards on the /product-reviews/ listing.
+const REVIEW_SELECTORS: ReviewSelectors = {
+  item: 'div.EPCmJX, div._27M-vq',
+  body: 'div.ZmyHeo, div.t-ZTKy',
+  title: 'p.z9E0IG, p._2-N8zT',
+  author: 'p._2NsDsF',
+  rating: 'div.XQDdHH, div._3LWZlK',
+  verified: 'p.MztJPv, p._2mcZGG',
+};
+
+export const flipkartPid = (url: string): string | null => {
+  try {
+    return new URL(url).searchParams.get('pid');
+  } catch {
+    return null;
+  }
+};
+
+const extract = (doc: HTMLDocument, pageUrl: string) => {
+  const product = emptyExtractedProduct(pageUrl, 'flipkart');
+  const price = parsePrice(firstText(doc, PRICE_SELECTORS), { currency: 'INR' });
+
+  fillFields(product, 'site', {
+    title: firstText(doc, TITLE_SELECTORS),
+    price: price.amount,
+    currency: price.amount !== null ? price.currency : null,
+    rating: firstNumber(firstText(doc, RATING_SELECTORS)),
+    // "12,345 Ratings & 1,234 Reviews"
+    review_count: firstNumber(firstText(doc, REVIEW_COUNT_SELECTORS)),
+    sku: flipkartPid(pageUrl),
+  });
+
+  product.images = resolveAll(
+    [firstAttr(doc, IMAGE_SELECTORS, 'src')],
+    documentBaseUrl(doc, pageUrl),
+  );
+  if (product.images.length > 0) fillFields(product, 'site', { image: product.images[0] });
+
+  return product;
+};
+
+// /<slug>/p/<itm>?pid=… → /<slug>/product-reviews/<itm>?pid=…&page=N
+const reviewPages = (_doc: HTMLDocument, pageUrl: string): ReviewPages | null => {
+  const url = new URL(pageUrl);
+  if (!/\/p\/itm/.test(url.pathname)) return null;
+  url.pathname = url.pathname.replace('/p/', '/product-reviews/');
+  return {
+    maxPages: 5,
+    url: (page) => {
+      url.searchParams.set('page', String(page));
+      return url.toString();
+    },
+    parse: htmlReviewParser(REVIEW_SELECTORS),
+  };
+};
+
+export const flipkartExtractor: SiteExtractor = {
+  id: 'flipkart',
+  hosts: [/(^|\.)flipkart\.com$/],
+  extract,
+  reviewPages,
+};
@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { extractProduct } from '../extract.ts';
+
+Deno.test('generic: reads a JSON-LD product', async () => {
+  const html = await Deno.readTextFile(new URL('./fixtures/generic-jsonld.html', import.meta.url));
+  const product = await extractProduct(html, 'https://lanterncoffee.com/gear/aeropress-clear', { platformApis: false });
+
+  assert.equal(product.extractor, 'generic');
+  assert.equal(product.title, 'Aeropress Clear Coffee Maker');
+  assert.equal(product.description, 'A shatterproof, transparent take on the classic Aeropress brewer.');
+  assert.equal(product.brand, 'AeroPress');
+  assert.equal(product.price, 49.95);
+  assert.equal(product.currency, 'USD');
+  assert.equal(product.rating, 4.8);
+  assert.equal(product.review_count, 126);
+  assert.equal(product.sku, 'LCS-APC-01');
+  assert.equal(product.gtin, '085276000232');
+  assert.equal(product.mpn, '82R08');
+  assert.equal(product.image, 'https://lanterncoffee.com/media/aeropress-clear-1.jpg');
+  assert.equal(product.canonical_url, 'https://lanterncoffee.com/gear/aeropress-clear');
+  assert.equal(product.sources.title, 'json-ld');
+  assert.equal(product.sources.price, 'json-ld');
+  assert.deepEqual(product.reviews, [
+    {
+      author: 'Elena',
+      rating: 5,
+      title: 'Easy to see the bloom',
+      body: 'Being able to watch the extraction makes dialling in a new bean much easier.',
+      date: '2024-04-11',
+      verified_purchase: null,
+      source: 'json-ld',
+    },
+    {
+      author: 'J. Park',
+      rating: 3,
+      title: 'Plunger is stiff',
+      body: 'Brews well but the seal needs a firm push for the first few weeks.',
+      date: '2024-01-28',
+      verified_purchase: null,
+      source: 'json-ld',
+    },
+  ]);
+});
+
+Deno.test('generic: reads a microdata product', async () => {
+  const html = await Deno.readTextFile(new URL('./fixtures/generic-microdata.html', import.meta.url));
+  const product = await extractProduct(html, 'https://radhaus-berlin.de/licht/lumen-80', { platformApis: false });
+
+  assert.equal(product.extractor, 'generic');
+  assert.equal(product.title, 'Fahrradlampe Lumen 80');
+  assert.equal(product.description, 'Akku-Frontlicht mit 80 Lux, USB-C-Ladung und StVZO-Zulassung.');
+  assert.equal(product.brand, 'Lumotec');
+  assert.equal(product.price, 64.9);
+  assert.equal(product.currency, 'EUR');
+  // Rescaled from a ten-point scale.
+  assert.equal(product.rating, 4.6);
+  assert.equal(product.review_count, 57);
+  assert.equal(product.sku, 'RB-4471');
+  assert.equal(product.gtin, '4026495871234');
+  assert.equal(product.image, 'https://radhaus-berlin.de/bilder/lumen-80.jpg');
+  assert.equal(product.sources.title, 'microdata');
+  assert.equal(product.sources.price, 'microdata');
+  assert.deepEqual(product.reviews, [
+    {
+      author: 'Katrin W.',
+      rating: 5,
+      title: 'Sehr hell',
+      body: 'Leuchtet die Straße gut aus und blendet den Gegenverkehr nicht.',
+      date: '2024-02-20',
+      verified_purchase: null,
+      source: 'microdata',
+    },
+  ]);
+});
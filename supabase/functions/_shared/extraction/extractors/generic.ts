@@ -0,0 +1,76 @@
+import { cleanText, documentBaseUrl, type HTMLDocument, metaContent, resolveUrl } from '../dom.ts';
+import { rankImageCandidates } from '../images.ts';
+import { extractReviewWidgets } from '../reviews.ts';
+import {
+  extractJsonLdProduct,
+  extractMicrodata,
+  extractProductMetaTags,
+  jsonLdBlocks,
+  type StructuredProductData,
+} from '../structured-data.ts';
+import { emptyExtractedProduct, type ExtractedProduct, type ExtractedReview, fillFields } from '../types.ts';
+
+const structuredFields = (data: StructuredProductData) => ({
+  title: data.name,
+  description: data.description,
+  price: data.price,
+  currency: data.currency,
+  rating: data.rating,
+  review_count: data.review_count,
+  brand: data.brand,
+  sku: data.sku,
+  gtin: data.gtin,
+  mpn: data.mpn,
+});
+
+// Reviews in structured data and in the common review widgets.
+export const extractPageReviews = (doc: HTMLDocument): ExtractedReview[] => [
+  ...extractJsonLdProduct(jsonLdBlocks(doc)).reviews,
+  ...extractMicrodata(doc).reviews,
+  ...extractReviewWidgets(doc),
+];
+
+// Site-agnostic extraction: JSON-LD, then microdata, then meta tags, then
+// plain DOM fallbacks. Each field keeps the first source that supplied it.
+export const extractGeneric = (doc: HTMLDocument, pageUrl: string): ExtractedProduct => {
+  const product = emptyExtractedProduct(pageUrl);
+  const jsonLd = extractJsonLdProduct(jsonLdBlocks(doc));
+  const microdata = extractMicrodata(doc);
+  const metaTags = extractProductMetaTags(doc);
+
+  const baseUrl = documentBaseUrl(doc, pageUrl);
+
+  fillFields(product, 'dom', {
+    canonical_url: resolveUrl(doc.querySelector('link[rel="canonical"]')?.getAttribute('href'), baseUrl),
+  });
+  fillFields(product, 'json-ld', structuredFields(jsonLd));
+  fillFields(product, 'microdata', structuredFields(microdata));
+  fillFields(product, 'meta', {
+    ...structuredFields(metaTags),
+    title: cleanText(metaContent(doc, 'og:title', 'twitter:title')),
+    description: cleanText(metaContent(doc, 'og:description', 'description', 'twitter:description')),
+    canonical_url: resolveUrl(metaContent(doc, 'og:url'), baseUrl),
+  });
+  fillFields(product, 'dom', {
+    title: cleanText(doc.querySelector('title')?.textContent) ??
+      cleanText(doc.querySelector('h1')?.textContent),
+  });
+
+  const images = rankImageCandidates(
+    doc,
+    baseUrl,
+    [
+      { source: 'json-ld', images: jsonLd.images },
+      { source: 'microdata', images: microdata.images },
+    ],
+    product.title,
+  );
+  product.images = images.map((candidate) => candidate.url);
+  if (images.length > 0) {
+    product.image = images[0].url;
+    product.sources.image = images[0].source;
+  }
+  product.reviews = [...jsonLd.reviews, ...microdata.reviews, ...extractReviewWidgets(doc)];
+
+  return product;
+};
@@ -0,0 +1,72 @@
+import { cleanText, type Element, type HTMLDocument, queryAll, resolveUrl } from '../dom.ts';
+import { toNumber } from '../structured-data.ts';
+
+export const firstText = (root: HTMLDocument | Element, selectors: string[]): string | null => {
+  for (const selector of selectors) {
+    for (const el of queryAll(root, selector)) {
+      const text = cleanText(el.textContent);
+      if (text) return text;
+    }
+  }
+  return null;
+};
+
+export const firstAttr = (
+  root: HTMLDocument | Element,
+  selectors: string[],
+  attr: string,
+): string | null => {
+  for (const selector of selectors) {
+    for (const el of queryAll(root, selector)) {
+      const value = el.getAttribute(attr)?.trim();
+      if (value) return value;
+    }
+  }
+  return null;
+};
+
+export const resolveAll = (urls: (string | null | undefined)[], baseUrl: string): string[] => [
+  ...new Set(urls.map((url) => resolveUrl(url, baseUrl)).filter((url): url is string => !!url)),
+];
+
+export const firstNumber = (text: string | null): number | null =>
+  toNumber(text?.match(/\d[\d.,]*/)?.[0] ?? null);
+
+// Finds `<script>` bodies matching `pattern` and JSON-parses the first capture
+// group (or the whole body when the pattern has none).
+export const scriptJson = <T = unknown>(doc: HTMLDocument, pattern: RegExp): T | null => {
+  for (const script of queryAll(doc, 'script')) {
+    const match = script.textContent.match(pattern);
+    if (!match) continue;
+    try {
+      return JSON.parse(match[1] ?? script.textContent) as T;
+    } catch {
+      // Keep looking; some pages repeat the assignment in several scripts.
+    }
+  }
+  return null;
+};
+
+export const API_TIMEOUT_MS = 8000;
+
+// GETs a JSON endpoint, returning null on any network, status or parse error
+// so platform APIs can fail over to page scraping.
+export const fetchJson = async <T = unknown>(url: string): Promise<T | null> => {
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Accept': 'application/json',
+      },
+      signal: AbortSignal.timeout(API_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      console.error('Platform API request failed:', url, response.status);
+      return null;
+    }
+    return (await response.json()) as T;
+  } catch (e) {
+    console.error('Platform API request failed:', url, e);
+    return null;
+  }
+};
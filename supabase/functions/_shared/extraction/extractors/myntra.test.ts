@@ -0,0 +1,28 @@
+import assert from 'node:assert/strict';
+import { extractProduct } from '../extract.ts';
+
+const PAGE_URL = 'https://www.myntra.com/shirts/roadster/roadster-men-navy-blue-slim-fit-casual-shirt/2414178/buy';
+const html = await Deno.readTextFile(new URL('./fixtures/myntra.html', import.meta.url));
+
+Deno.test('myntra: reads the product from the page state', async () => {
+  const product = await extractProduct(html, PAGE_URL, { platformApis: false });
+
+  assert.equal(product.extractor, 'myntra');
+  assert.equal(product.title, 'Roadster Men Navy Blue Slim Fit Casual Shirt');
+  assert.equal(product.brand, 'Roadster');
+  assert.equal(product.price, 699);
+  assert.equal(product.currency, 'INR');
+  assert.equal(product.rating, 4.19);
+  assert.equal(product.review_count, 5286);
+  assert.equal(product.sku, '2414178');
+  assert.equal(
+    product.description,
+    'Navy blue checked casual shirt, has a spread collar, button placket and long sleeves.',
+  );
+  assert.deepEqual(product.images, [
+    'https://assets.myntassets.com/h_720,q_90,w_540/v1/assets/images/2414178/2023/9/4/roadster-shirt-1.jpg',
+    'https://assets.myntassets.com/h_720,q_90,w_540/v1/assets/images/2414178/2023/9/4/roadster-shirt-2.jpg',
+  ]);
+  assert.equal(product.image, product.images[0]);
+  assert.equal(product.sources.price, 'site');
+});
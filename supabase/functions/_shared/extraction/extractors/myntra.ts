@@ -0,0 +1,54 @@
+import { documentBaseUrl, type HTMLDocument } from '../dom.ts';
+import { parsePrice } from '../price.ts';
+import { emptyExtractedProduct, fillFields } from '../types.ts';
+import { firstText, resolveAll, scriptJson } from './helpers.ts';
+import type { SiteExtractor } from './registry.ts';
+
+interface MyntraPdpData {
+  id?: number;
+  name?: string;
+  brand?: { name?: string };
+  price?: { mrp?: number; discounted?: number };
+  ratings?: { averageRating?: number; totalCount?: number };
+  media?: { albums?: { images?: { imageURL?: string; src?: string }[] }[] };
+  productDetails?: { title?: string; description?: string }[];
+}
+
+// Myntra renders client-side; product data lives in `window.__myx`.
+const extract = (doc: HTMLDocument, pageUrl: string) => {
+  const product = emptyExtractedProduct(pageUrl, 'myntra');
+  const state = scriptJson<{ pdpData?: MyntraPdpData }>(
+    doc,
+    /window\.__myx\s*=\s*(\{[\s\S]*\})\s*;?\s*$/,
+  );
+  const pdp = state?.pdpData;
+  const domPrice = parsePrice(firstText(doc, ['.pdp-price strong', '.pdp-price']));
+  const price = pdp?.price?.discounted ?? pdp?.price?.mrp ?? domPrice.amount;
+
+  fillFields(product, 'site', {
+    title: pdp?.name ?? firstText(doc, ['h1.pdp-name', '.pdp-title']),
+    description: pdp?.productDetails?.[0]?.description,
+    brand: pdp?.brand?.name ?? firstText(doc, ['h1.pdp-title']),
+    price,
+    currency: price !== null && price !== undefined ? 'INR' : null,
+    rating: pdp?.ratings?.averageRating
+      ? Math.round(pdp.ratings.averageRating * 100) / 100
+      : null,
+    review_count: pdp?.ratings?.totalCount,
+    sku: pdp?.id !== undefined ? String(pdp.id) : pageUrl.match(/\/(\d{5,})\/buy/)?.[1],
+  });
+
+  product.images = resolveAll(
+    (pdp?.media?.albums?.[0]?.images ?? []).map((image) => image.imageURL ?? image.src),
+    documentBaseUrl(doc, pageUrl),
+  );
+  if (product.images.length > 0) fillFields(product, 'site', { image: product.images[0] });
+
+  return product;
+};
+
+export const myntraExtractor: SiteExtractor = {
+  id: 'myntra',
+  hosts: [/(^|\.)myntra\.com$/],
+  extract,
+};
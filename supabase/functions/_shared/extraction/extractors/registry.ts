@@ -0,0 +1,63 @@
+import type { HTMLDocument } from '../dom.ts';
+import type { ExtractedProduct, ExtractedReview } from '../types.ts';
+import { amazonExtractor } from './amazon.ts';
+import { bestBuyExtractor } from './bestbuy.ts';
+import { flipkartExtractor } from './flipkart.ts';
+import { myntraExtractor } from './myntra.ts';
+import { shopifyExtractor } from './shopify.ts';
+import { walmartExtractor } from './walmart.ts';
+import { wooCommerceExtractor } from './woocommerce.ts';
+
+// A product's paginated review listing: a review page or a review API.
+export interface ReviewPages {
+  // Most pages fetched per crawl; retailers quick to block bots get fewer.
+  maxPages: number;
+  // URL of review page `page` (1-based) given the page fetched before it, or
+  // null when there are no more.
+  url: (page: number, previous: { url: string; body: string } | null) => string | null;
+  parse: (body: string) => ExtractedReview[];
+}
+
+export interface SiteExtractor {
+  id: string;
+  // Hostname patterns the extractor is registered for. Platform extractors
+  // (Shopify, WooCommerce) leave this empty and rely on `detect` instead.
+  hosts: RegExp[];
+  detect?: (doc: HTMLDocument) => boolean;
+  extract: (doc: HTMLDocument, pageUrl: string) => ExtractedProduct;
+  // Structured product endpoint exposed by the platform, preferred over
+  // anything scraped from the page when it responds.
+  fetchApi?: (doc: HTMLDocument, pageUrl: string) => Promise<ExtractedProduct | null>;
+  // Where the product's full review listing lives, when the retailer or
+  // platform has one beyond the few reviews embedded in the page.
+  reviewPages?: (doc: HTMLDocument, pageUrl: string) => ReviewPages | null;
+}
+
+// Hostname-keyed retailers are checked before platform detection so a
+// retailer that happens to embed Shopify scripts keeps its own extractor.
+export const siteExtractors: SiteExtractor[] = [
+  amazonExtractor,
+  flipkartExtractor,
+  myntraExtractor,
+  bestBuyExtractor,
+  walmartExtractor,
+  shopifyExtractor,
+  wooCommerceExtractor,
+];
+
+export const findSiteExtractor = (
+  pageUrl: string,
+  doc: HTMLDocument,
+): SiteExtractor | null => {
+  let hostname: string;
+  try {
+    hostname = new URL(pageUrl).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+  return (
+    siteExtractors.find((extractor) => extractor.hosts.some((host) => host.test(hostname))) ??
+    siteExtractors.find((extractor) => extractor.detect?.(doc)) ??
+    null
+  );
+};
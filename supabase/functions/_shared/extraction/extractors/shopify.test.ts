@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { extractProduct } from '../extract.ts';
+import { stubFetch } from './fixtures/stub-fetch.ts';
+
+// A custom domain, so the store is recognised from the page markup rather
+// than the myshopify.com host.
+const PAGE_URL = 'https://www.northfieldgoods.com/products/merino-crew-sock?variant=42185312043236';
+const html = await Deno.readTextFile(new URL('./fixtures/shopify.html', import.meta.url));
+const ajaxProduct = await Deno.readTextFile(new URL('./fixtures/shopify-product.json', import.meta.url));
+
+Deno.test('shopify: detects the store and reads the page', async () => {
+  const product = await extractProduct(html, PAGE_URL, { platformApis: false });
+
+  assert.equal(product.extractor, 'shopify');
+  assert.equal(product.title, 'Merino Crew Sock');
+  assert.equal(product.brand, 'Northfield');
+  assert.equal(product.price, 24);
+  assert.equal(product.currency, 'USD');
+  assert.equal(product.sku, 'NF-MCS-CH-M');
+  assert.equal(
+    product.image,
+    'https://www.northfieldgoods.com/cdn/shop/files/merino-crew-sock-charcoal.jpg?v=1698765432&width=1100',
+  );
+  assert.equal(product.sources.price, 'site');
+  assert.equal(product.sources.title, 'meta');
+});
+
+Deno.test('shopify: prefers the AJAX product API over the page', async () => {
+  const fetch = stubFetch({ 'https://www.northfieldgoods.com/products/merino-crew-sock.js': ajaxProduct });
+  try {
+    const product = await extractProduct(html, PAGE_URL);
+
+    assert.deepEqual(fetch.requested, ['https://www.northfieldgoods.com/products/merino-crew-sock.js']);
+    // The first available variant sets the price.
+    assert.equal(product.price, 22);
+    assert.equal(product.currency, 'USD');
+    assert.equal(product.description, 'Midweight merino wool crew socks with a cushioned sole.');
+    assert.equal(product.gtin, '0850012345671');
+    assert.equal(product.in_stock, true);
+    assert.deepEqual(product.variants.map((variant) => [variant.sku, variant.price, variant.available]), [
+      ['NF-MCS-CH-M', 24, false],
+      ['NF-MCS-CH-L', 22, true],
+    ]);
+    assert.equal(product.sources.price, 'api');
+    assert.equal(product.sources.currency, 'site');
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test('shopify: falls back to the page when the product API is unavailable', async () => {
+  const fetch = stubFetch({});
+  try {
+    const product = await extractProduct(html, PAGE_URL);
+
+    assert.deepEqual(fetch.requested, [
+      'https://www.northfieldgoods.com/products/merino-crew-sock.js',
+      'https://www.northfieldgoods.com/products/merino-crew-sock.json',
+    ]);
+    assert.equal(product.price, 24);
+    assert.equal(product.sources.price, 'site');
+  } finally {
+    fetch.restore();
+  }
+});
@@ -0,0 +1,172 @@
+import { cleanText, documentBaseUrl, type HTMLDocument, metaContent, queryAll } from '../dom.ts';
+import { normalizeCurrency } from '../price.ts';
+import { emptyExtractedProduct, type ExtractedProduct, fillFields, type ProductVariant } from '../types.ts';
+import { fetchJson, resolveAll, scriptJson } from './helpers.ts';
+import type { SiteExtractor } from './registry.ts';
+
+interface ShopifyAnalyticsMeta {
+  product?: {
+    id?: number;
+    vendor?: string;
+    variants?: { price?: number; sku?: string; name?: string }[];
+  };
+}
+
+// `/products/<handle>.js` (AJAX API): prices in minor units, per-variant
+// availability.
+interface ShopifyAjaxProduct {
+  id: number;
+  title?: string;
+  handle?: string;
+  vendor?: string;
+  description?: string;
+  available?: boolean;
+  images?: string[];
+  variants?: {
+    id: number;
+    title?: string;
+    sku?: string | null;
+    barcode?: string | null;
+    price?: number;
+    compare_at_price?: number | null;
+    available?: boolean;
+  }[];
+}
+
+// `/products/<handle>.json` (storefront JSON): decimal price strings and,
+// on stores that expose it, inventory quantities.
+interface ShopifyJsonProduct {
+  product?: {
+    id: number;
+    title?: string;
+    vendor?: string;
+    body_html?: string;
+    images?: { src?: string }[];
+    variants?: {
+      id: number;
+      title?: string;
+      sku?: string | null;
+      barcode?: string | null;
+      price?: string;
+      compare_at_price?: string | null;
+      inventory_quantity?: number;
+    }[];
+  };
+}
+
+export const isShopify = (doc: HTMLDocument): boolean =>
+  /Shopify/i.test(metaContent(doc, 'generator') ?? '') ||
+  queryAll(doc, 'script').some((script) => /Shopify\.theme\b|cdn\.shopify\.com/.test(
+    script.textContent + (script.getAttribute('src') ?? ''),
+  )) ||
+  !!doc.querySelector('meta[name="shopify-checkout-api-token"], link[href*="cdn.shopify.com"]');
+
+const extract = (doc: HTMLDocument, pageUrl: string) => {
+  const product = emptyExtractedProduct(pageUrl, 'shopify');
+  const meta = scriptJson<ShopifyAnalyticsMeta>(doc, /var meta\s*=\s*(\{[\s\S]*?\});/);
+  const currency = scriptJson<{ active?: string }>(doc, /Shopify\.currency\s*=\s*(\{[^}]*\})/);
+  const variant = meta?.product?.variants?.[0];
+
+  // ShopifyAnalytics reports variant prices in minor units.
+  fillFields(product, 'site', {
+    brand: meta?.product?.vendor,
+    price: typeof variant?.price === 'number' ? variant.price / 100 : null,
+    currency: normalizeCurrency(currency?.active),
+    sku: variant?.sku,
+  });
+
+  product.images = resolveAll(
+    queryAll(doc, '.product__media img, .product-single__photo img, [data-product-featured-image]')
+      .map((img) => img.getAttribute('src') ?? img.getAttribute('data-src')),
+    documentBaseUrl(doc, pageUrl),
+  );
+  if (product.images.length > 0) fillFields(product, 'site', { image: product.images[0] });
+
+  return product;
+};
+
+export const shopifyHandle = (pageUrl: string): string | null =>
+  new URL(pageUrl).pathname.match(/\/products\/([^/?#.]+)/)?.[1] ?? null;
+
+const decimal = (value: string | null | undefined): number | null => {
+  const parsed = parseFloat(value ?? '');
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const fromAjaxProduct = (data: ShopifyAjaxProduct, pageUrl: string): ExtractedProduct => {
+  const product = emptyExtractedProduct(pageUrl, 'shopify');
+  const variants: ProductVariant[] = (data.variants ?? []).map((variant) => ({
+    id: String(variant.id),
+    title: variant.title ?? null,
+    sku: variant.sku || null,
+    price: typeof variant.price === 'number' ? variant.price / 100 : null,
+    compare_at_price: typeof variant.compare_at_price === 'number' ? variant.compare_at_price / 100 : null,
+    available: variant.available ?? null,
+    inventory_quantity: null,
+  }));
+  const first = data.variants?.[0];
+
+  fillFields(product, 'api', {
+    title: data.title,
+    description: cleanText(data.description),
+    brand: data.vendor,
+    price: variants.find((variant) => variant.available)?.price ?? variants[0]?.price,
+    sku: first?.sku || null,
+    gtin: first?.barcode || null,
+    in_stock: data.available ?? null,
+  });
+  product.variants = variants;
+  product.images = resolveAll(data.images ?? [], pageUrl);
+  if (product.images.length > 0) fillFields(product, 'api', { image: product.images[0] });
+  return product;
+};
+
+const fromJsonProduct = (data: NonNullable<ShopifyJsonProduct['product']>, pageUrl: string) => {
+  const product = emptyExtractedProduct(pageUrl, 'shopify');
+  const variants: ProductVariant[] = (data.variants ?? []).map((variant) => ({
+    id: String(variant.id),
+    title: variant.title ?? null,
+    sku: variant.sku || null,
+    price: decimal(variant.price),
+    compare_at_price: decimal(variant.compare_at_price),
+    available: typeof variant.inventory_quantity === 'number' ? variant.inventory_quantity > 0 : null,
+    inventory_quantity: variant.inventory_quantity ?? null,
+  }));
+  const known = variants.filter((variant) => variant.available !== null);
+
+  fillFields(product, 'api', {
+    title: data.title,
+    description: cleanText(data.body_html),
+    brand: data.vendor,
+    price: variants[0]?.price,
+    sku: variants[0]?.sku,
+    gtin: data.variants?.[0]?.barcode || null,
+    in_stock: known.length > 0 ? known.some((variant) => variant.available) : null,
+  });
+  product.variants = variants;
+  product.images = resolveAll((data.images ?? []).map((image) => image.src), pageUrl);
+  if (product.images.length > 0) fillFields(product, 'api', { image: product.images[0] });
+  return product;
+};
+
+// Prefers the AJAX endpoint (availability per variant) and falls back to the
+// storefront JSON, which some themes leave enabled when the AJAX API is off.
+const fetchApi = async (_doc: HTMLDocument, pageUrl: string): Promise<ExtractedProduct | null> => {
+  const handle = shopifyHandle(pageUrl);
+  if (!handle) return null;
+  const base = `${new URL(pageUrl).origin}/products/${handle}`;
+
+  const ajax = await fetchJson<ShopifyAjaxProduct>(`${base}.js`);
+  if (ajax?.id) return fromAjaxProduct(ajax, pageUrl);
+
+  const json = await fetchJson<ShopifyJsonProduct>(`${base}.json`);
+  return json?.product?.id ? fromJsonProduct(json.product, pageUrl) : null;
+};
+
+export const shopifyExtractor: SiteExtractor = {
+  id: 'shopify',
+  hosts: [/(^|\.)myshopify\.com$/],
+  detect: isShopify,
+  extract,
+  fetchApi,
+};
@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { parseHtml } from '../dom.ts';
+import { extractProduct } from '../extract.ts';
+import { walmartExtractor } from './walmart.ts';
+
+const PAGE_URL = 'https://www.walmart.com/ip/Instant-Pot-Duo-7-in-1-Electric-Pressure-Cooker-6-Quart/42092397';
+const html = await Deno.readTextFile(new URL('./fixtures/walmart.html', import.meta.url));
+
+Deno.test('walmart: reads the product from __NEXT_DATA__', async () => {
+  const product = await extractProduct(html, PAGE_URL, { platformApis: false });
+
+  assert.equal(product.extractor, 'walmart');
+  assert.equal(product.title, 'Instant Pot Duo 7-in-1 Electric Pressure Cooker, 6 Quart');
+  assert.equal(product.brand, 'Instant Pot');
+  assert.equal(product.price, 79);
+  assert.equal(product.currency, 'USD');
+  assert.equal(product.rating, 4.7);
+  assert.equal(product.review_count, 38121);
+  assert.equal(product.sku, '42092397');
+  assert.equal(product.gtin, '853084004088');
+  assert.equal(product.mpn, 'IP-DUO60');
+  assert.deepEqual(product.images, [
+    'https://i5.walmartimages.com/seo/Instant-Pot-Duo-6-Quart_1.jpeg',
+    'https://i5.walmartimages.com/seo/Instant-Pot-Duo-6-Quart_2.jpeg',
+  ]);
+  assert.equal(product.sources.price, 'site');
+});
+
+Deno.test('walmart: reads the embedded reviews', async () => {
+  const product = await extractProduct(html, PAGE_URL, { platformApis: false });
+
+  assert.deepEqual(product.reviews, [
+    {
+      author: 'homecook22',
+      rating: 5,
+      title: 'Use it every day',
+      body: 'Rice and stews come out perfectly and cleanup is quick.',
+      date: '2024-03-04',
+      verified_purchase: true,
+      source: 'site',
+    },
+    {
+      author: 'Sam',
+      rating: 2,
+      title: 'Sealing ring smells',
+      body: 'The silicone ring keeps the smell of whatever was cooked last.',
+      date: '2024-01-15',
+      verified_purchase: false,
+      source: 'site',
+    },
+  ]);
+});
+
+Deno.test('walmart: pages reviews by item id', () => {
+  const reviews = walmartExtractor.reviewPages!(parseHtml(html)!, PAGE_URL)!;
+
+  assert.equal(reviews.url(2, null), 'https://www.walmart.com/reviews/product/42092397?page=2');
+  assert.equal(reviews.parse(html).length, 2);
+});
@@ -0,0 +1,119 @@
+import { documentBaseUrl, type HTMLDocument, parseHtml } from '../dom.ts';
+import { normalizeCurrency, parsePrice } from '../price.ts';
+import { buildReview } from '../reviews.ts';
+import { emptyExtractedProduct, type ExtractedReview, fillFields } from '../types.ts';
+import { firstNumber, firstText, resolveAll } from './helpers.ts';
+import type { ReviewPages, SiteExtractor } from './registry.ts';
+
+interface WalmartProduct {
+  name?: string;
+  brand?: string;
+  usItemId?: string;
+  upc?: string;
+  model?: string;
+  averageRating?: number;
+  numberOfReviews?: number;
+  shortDescription?: string;
+  priceInfo?: { currentPrice?: { price?: number; currencyUnit?: string } };
+  imageInfo?: { allImages?: { url?: string }[] };
+}
+
+interface WalmartReview {
+  reviewText?: string;
+  reviewTitle?: string;
+  rating?: number;
+  userNickname?: string;
+  reviewSubmissionTime?: string;
+  badges?: { id?: string }[];
+}
+
+interface WalmartNextData {
+  props?: {
+    pageProps?: {
+      initialData?: { data?: { product?: WalmartProduct; reviews?: { customerReviews?: WalmartReview[] } } };
+    };
+  };
+}
+
+const readNextData = (doc: HTMLDocument): WalmartNextData | null => {
+  const raw = doc.querySelector('script#__NEXT_DATA__')?.textContent;
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as WalmartNextData;
+  } catch {
+    return null;
+  }
+};
+
+// Product pages and /reviews/product/<id> listings carry the same review
+// records in `__NEXT_DATA__`.
+const customerReviews = (doc: HTMLDocument): ExtractedReview[] =>
+  (readNextData(doc)?.props?.pageProps?.initialData?.data?.reviews?.customerReviews ?? [])
+    .map((review) =>
+      buildReview({
+        author: review.userNickname,
+        rating: review.rating,
+        title: review.reviewTitle,
+        body: review.reviewText,
+        date: review.reviewSubmissionTime,
+        verified_purchase: review.badges?.some((badge) => badge.id === 'VerifiedPurchaser') ?? null,
+      }, 'site')
+    )
+    .filter((review): review is ExtractedReview => review !== null);
+
+// Walmart is a Next.js app; the product record is in `__NEXT_DATA__`.
+const extract = (doc: HTMLDocument, pageUrl: string) => {
+  const product = emptyExtractedProduct(pageUrl, 'walmart');
+  const item = readNextData(doc)?.props?.pageProps?.initialData?.data?.product;
+  const isCanada = new URL(pageUrl).hostname.endsWith('.ca');
+  const domPrice = parsePrice(
+    firstText(doc, ['[itemprop="price"]', '[data-testid="price-wrap"] span']),
+    { currency: isCanada ? 'CAD' : 'USD' },
+  );
+  const price = item?.priceInfo?.currentPrice?.price ?? domPrice.amount;
+
+  fillFields(product, 'site', {
+    title: item?.name ?? firstText(doc, ['h1[itemprop="name"]', 'h1#main-title', 'h1']),
+    description: item?.shortDescription,
+    brand: item?.brand,
+    price,
+    currency: price !== null && price !== undefined
+      ? normalizeCurrency(item?.priceInfo?.currentPrice?.currencyUnit) ?? (isCanada ? 'CAD' : 'USD')
+      : null,
+    rating: item?.averageRating ?? firstNumber(firstText(doc, ['.rating-number'])),
+    review_count: item?.numberOfReviews,
+    sku: item?.usItemId ?? pageUrl.match(/\/ip\/(?:[^/]+\/)?(\d+)/)?.[1],
+    gtin: item?.upc,
+    mpn: item?.model,
+  });
+
+  product.images = resolveAll(
+    (item?.imageInfo?.allImages ?? []).map((image) => image.url),
+    documentBaseUrl(doc, pageUrl),
+  );
+  if (product.images.length > 0) fillFields(product, 'site', { image: product.images[0] });
+  product.reviews = customerReviews(doc);
+
+  return product;
+};
+
+const reviewPages = (_doc: HTMLDocument, pageUrl: string): ReviewPages | null => {
+  const { origin } = new URL(pageUrl);
+  const id = pageUrl.match(/\/ip\/(?:[^/]+\/)?(\d+)/)?.[1];
+  if (!id) return null;
+  return {
+    maxPages: 5,
+    url: (page) => `${origin}/reviews/product/${id}?page=${page}`,
+    parse: (body) => {
+      const doc = parseHtml(body);
+      return doc ? customerReviews(doc) : [];
+    },
+  };
+};
+
+export const walmartExtractor: SiteExtractor = {
+  id: 'walmart',
+  hosts: [/(^|\.)walmart\.(com|ca)$/],
+  extract,
+  reviewPages,
+};
@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { parseHtml } from '../dom.ts';
+import { extractProduct } from '../extract.ts';
+import { stubFetch } from './fixtures/stub-fetch.ts';
+import { wooCommerceExtractor } from './woocommerce.ts';
+
+const PAGE_URL = 'https://www.hollowaytea.co.uk/product/earl-grey-loose-leaf/';
+const html = await Deno.readTextFile(new URL('./fixtures/woocommerce.html', import.meta.url));
+const storeApiProduct = await Deno.readTextFile(new URL('./fixtures/woocommerce-product.json', import.meta.url));
+
+Deno.test('woocommerce: detects the store and reads the page', async () => {
+  const product = await extractProduct(html, PAGE_URL, { platformApis: false });
+
+  assert.equal(product.extractor, 'woocommerce');
+  assert.equal(product.title, 'Earl Grey Loose Leaf Tea');
+  assert.equal(product.description, 'Black tea from Assam blended with cold-pressed bergamot oil. 100g pouch.');
+  // The sale price, not the struck-through regular price.
+  assert.equal(product.price, 8.5);
+  assert.equal(product.currency, 'GBP');
+  assert.equal(product.rating, 4.67);
+  assert.equal(product.review_count, 3);
+  assert.equal(product.sku, 'HT-EG-100');
+  assert.equal(product.image, 'https://www.hollowaytea.co.uk/wp-content/uploads/2024/02/earl-grey.jpg');
+  assert.equal(product.sources.price, 'site');
+});
+
+Deno.test('woocommerce: prefers the Store API product over the page', async () => {
+  const fetch = stubFetch({ 'https://www.hollowaytea.co.uk/wp-json/wc/store/v1/products/1187': storeApiProduct });
+  try {
+    const product = await extractProduct(html, PAGE_URL);
+
+    assert.deepEqual(fetch.requested, ['https://www.hollowaytea.co.uk/wp-json/wc/store/v1/products/1187']);
+    assert.equal(product.price, 8.5);
+    assert.equal(product.currency, 'GBP');
+    assert.equal(product.in_stock, true);
+    assert.equal(product.sources.price, 'api');
+    assert.equal(product.sources.sku, 'api');
+  } finally {
+    fetch.restore();
+  }
+});
+
+Deno.test('woocommerce: pages reviews through the Store API', async () => {
+  const reviews = wooCommerceExtractor.reviewPages!(parseHtml(html)!, PAGE_URL)!;
+  const listing = await Deno.readTextFile(new URL('./fixtures/woocommerce-reviews.json', import.meta.url));
+
+  assert.equal(
+    reviews.url(2, null),
+    'https://www.hollowaytea.co.uk/wp-json/wc/store/v1/products/reviews?product_id=1187&page=2&per_page=50',
+  );
+  assert.deepEqual(reviews.parse(listing), [
+    {
+      author: 'Margaret H.',
+      rating: 5,
+      title: null,
+      body: 'Strong bergamot without being perfumed. Lovely with a splash of milk.',
+      date: '2024-05-02',
+      verified_purchase: true,
+      source: 'api',
+    },
+    {
+      author: 'Tom',
+      rating: 4,
+      title: null,
+      body: 'Good flavour but the pouch is hard to reseal.',
+      date: '2024-03-19',
+      verified_purchase: false,
+      source: 'api',
+    },
+  ]);
+});
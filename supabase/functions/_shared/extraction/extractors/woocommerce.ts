@@ -0,0 +1,171 @@
+import { cleanText, documentBaseUrl, type HTMLDocument, metaContent } from '../dom.ts';
+import { normalizeCurrency, parsePrice } from '../price.ts';
+import { buildReview, jsonReviewParser } from '../reviews.ts';
+import { emptyExtractedProduct, type ExtractedProduct, fillFields } from '../types.ts';
+import { fetchJson, firstAttr, firstNumber, firstText, resolveAll } from './helpers.ts';
+import type { ReviewPages, SiteExtractor } from './registry.ts';
+
+// Store API product (`/wp-json/wc/store/v1/products/<id>`). Prices are
+// integer strings in the currency's minor unit.
+interface StoreApiProduct {
+  id: number;
+  name?: string;
+  short_description?: string;
+  description?: string;
+  sku?: string;
+  is_in_stock?: boolean;
+  average_rating?: string;
+  review_count?: number;
+  images?: { src?: string }[];
+  prices?: {
+    price?: string;
+    regular_price?: string;
+    currency_code?: string;
+    currency_minor_unit?: number;
+  };
+  variations?: { id: number; attributes?: { name?: string; value?: string }[] }[];
+}
+
+// Store API review (`/wp-json/wc/store/v1/products/reviews`).
+interface StoreApiReview {
+  reviewer?: string;
+  review?: string;
+  rating?: number;
+  date_created?: string;
+  verified?: boolean;
+}
+
+export const isWooCommerce = (doc: HTMLDocument): boolean =>
+  /\bwoocommerce\b/.test(doc.body?.getAttribute('class') ?? '') ||
+  /WooCommerce/i.test(metaContent(doc, 'generator') ?? '') ||
+  (!!doc.querySelector('link[rel="https://api.w.org/"]') && !!doc.querySelector('form.cart, .product_title'));
+
+const wpJsonRoot = (doc: HTMLDocument, pageUrl: string): string => {
+  const href = doc.querySelector('link[rel="https://api.w.org/"]')?.getAttribute('href');
+  const root = href ? new URL(href, pageUrl).toString() : `${new URL(pageUrl).origin}/wp-json/`;
+  return root.endsWith('/') ? root : `${root}/`;
+};
+
+const productId = (doc: HTMLDocument): string | null =>
+  doc.querySelector('link[rel="shortlink"]')?.getAttribute('href')?.match(/[?&]p=(\d+)/)?.[1] ??
+  doc.body?.getAttribute('class')?.match(/\bpostid-(\d+)\b/)?.[1] ??
+  firstAttr(doc, ['button[name="add-to-cart"]', 'input[name="add-to-cart"]'], 'value') ??
+  null;
+
+const fromStoreApi = (data: StoreApiProduct, pageUrl: string): ExtractedProduct => {
+  const product = emptyExtractedProduct(pageUrl, 'woocommerce');
+  const minor = 10 ** (data.prices?.currency_minor_unit ?? 2);
+  const minorUnits = (value: string | undefined) => {
+    const parsed = parseInt(value ?? '', 10);
+    return Number.isFinite(parsed) ? parsed / minor : null;
+  };
+  const rating = parseFloat(data.average_rating ?? '');
+
+  fillFields(product, 'api', {
+    title: cleanText(data.name),
+    description: cleanText(data.short_description) ?? cleanText(data.description),
+    price: minorUnits(data.prices?.price),
+    currency: normalizeCurrency(data.prices?.currency_code),
+    rating: rating > 0 ? rating : null,
+    review_count: data.review_count,
+    sku: data.sku || null,
+    in_stock: data.is_in_stock ?? null,
+  });
+  // The listing endpoint only names variations; prices need one request each,
+  // which is more than a single analysis should spend.
+  product.variants = (data.variations ?? []).map((variation) => ({
+    id: String(variation.id),
+    title: variation.attributes?.map((attr) => attr.value).filter(Boolean).join(' / ') || null,
+    sku: null,
+    price: null,
+    compare_at_price: null,
+    available: null,
+    inventory_quantity: null,
+  }));
+  product.images = resolveAll((data.images ?? []).map((image) => image.src), pageUrl);
+  if (product.images.length > 0) fillFields(product, 'api', { image: product.images[0] });
+  return product;
+};
+
+// Looks the product up by post id when the page exposes one, else by slug.
+const fetchApi = async (doc: HTMLDocument, pageUrl: string): Promise<ExtractedProduct | null> => {
+  const root = `${wpJsonRoot(doc, pageUrl)}wc/store/v1/products`;
+  const id = productId(doc);
+  if (id) {
+    const data = await fetchJson<StoreApiProduct>(`${root}/${id}`);
+    if (data?.id) return fromStoreApi(data, pageUrl);
+  }
+
+  const slug = new URL(pageUrl).pathname.split('/').filter(Boolean).pop();
+  if (!slug) return null;
+  const matches = await fetchJson<StoreApiProduct[]>(`${root}?slug=${encodeURIComponent(slug)}`);
+  return Array.isArray(matches) && matches[0]?.id ? fromStoreApi(matches[0], pageUrl) : null;
+};
+
+const extract = (doc: HTMLDocument, pageUrl: string) => {
+  const product = emptyExtractedProduct(pageUrl, 'woocommerce');
+  // Sale prices wrap the current amount in <ins>; regular prices do not.
+  const priceText = firstText(doc, [
+    '.summary .price ins .woocommerce-Price-amount',
+    '.summary .price .woocommerce-Price-amount',
+    'p.price ins .woocommerce-Price-amount',
+    'p.price .woocommerce-Price-amount',
+  ]);
+  const symbol = firstText(doc, ['.summary .woocommerce-Price-currencySymbol', '.woocommerce-Price-currencySymbol']);
+  const price = parsePrice(priceText, { url: pageUrl, currency: normalizeCurrency(symbol) });
+  const ratingLabel = firstAttr(doc, ['.woocommerce-product-rating .star-rating'], 'aria-label');
+
+  fillFields(product, 'site', {
+    title: firstText(doc, ['h1.product_title', '.summary h1']),
+    description: firstText(doc, ['.woocommerce-product-details__short-description']),
+    price: price.amount,
+    currency: price.amount !== null ? price.currency : null,
+    rating: firstNumber(firstText(doc, ['.woocommerce-product-rating .star-rating strong.rating']) ?? ratingLabel),
+    review_count: firstNumber(firstText(doc, ['.woocommerce-review-link .count'])),
+    sku: firstText(doc, ['.product_meta .sku']),
+  });
+
+  product.images = resolveAll(
+    [
+      firstAttr(doc, ['.woocommerce-product-gallery__image a'], 'href'),
+      firstAttr(doc, ['.woocommerce-product-gallery__image img'], 'data-large_image'),
+      firstAttr(doc, ['.woocommerce-product-gallery__image img'], 'src'),
+    ],
+    documentBaseUrl(doc, pageUrl),
+  );
+  if (product.images.length > 0) fillFields(product, 'site', { image: product.images[0] });
+
+  return product;
+};
+
+const REVIEWS_PER_PAGE = 50;
+
+const reviewPages = (doc: HTMLDocument, pageUrl: string): ReviewPages | null => {
+  const id = productId(doc);
+  if (!id) return null;
+  const root = `${wpJsonRoot(doc, pageUrl)}wc/store/v1/products/reviews`;
+  return {
+    maxPages: 4,
+    url: (page) => `${root}?product_id=${id}&page=${page}&per_page=${REVIEWS_PER_PAGE}`,
+    parse: jsonReviewParser<StoreApiReview[]>((reviews) =>
+      (Array.isArray(reviews) ? reviews : []).map((review) =>
+        buildReview({
+          author: review.reviewer,
+          rating: review.rating || null,
+          body: review.review,
+          date: review.date_created,
+          verified_purchase: review.verified ?? null,
+        }, 'api')
+      )
+    ),
+  };
+};
+
+export const wooCommerceExtractor: SiteExtractor = {
+  id: 'woocommerce',
+  hosts: [],
+  detect: isWooCommerce,
+  extract,
+  fetchApi,
+  reviewPages,
+};
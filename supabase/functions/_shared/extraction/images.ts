@@ -0,0 +1,95 @@
+import { type HTMLDocument, metaContent, queryAll, resolveUrl } from './dom.ts';
+import type { FieldSource } from './types.ts';
+
+export interface ImageCandidate {
+  url: string;
+  source: FieldSource;
+  score: number;
+}
+
+const SOURCE_WEIGHT: Record<FieldSource, number> = {
+  api: 60,
+  site: 55,
+  'json-ld': 50,
+  microdata: 45,
+  meta: 40,
+  dom: 0,
+  firecrawl: 30,
+  url: 0,
+};
+
+const JUNK_PATTERN = /(logo|icon|sprite|pixel|spacer|blank|placeholder|badge|banner|avatar|tracking|beacon|1x1|loader|spinner)/i;
+const PRODUCT_HINT_PATTERN = /(product|main|hero|primary|zoom|gallery|landing)/i;
+
+const scoreImage = (url: string, hints: string, width: number, height: number): number => {
+  let score = 0;
+  if (JUNK_PATTERN.test(url) || JUNK_PATTERN.test(hints)) score -= 60;
+  if (PRODUCT_HINT_PATTERN.test(hints)) score += 20;
+  if (/\.svg(\?|$)/i.test(url)) score -= 40;
+  if (/\.gif(\?|$)/i.test(url)) score -= 20;
+  if (width && height) {
+    if (width <= 2 || height <= 2) score -= 100;
+    else if (Math.min(width, height) < 100) score -= 30;
+    else if (Math.min(width, height) >= 300) score += 15;
+  }
+  return score;
+};
+
+const dimension = (value: string | null): number => {
+  const parsed = parseInt(value ?? '', 10);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+// Collects image URLs from structured data, meta tags and `<img>` elements,
+// resolves them against the page and ranks them best first.
+export const rankImageCandidates = (
+  doc: HTMLDocument,
+  baseUrl: string,
+  structured: { source: FieldSource; images: string[] }[],
+  title: string | null,
+): ImageCandidate[] => {
+  const candidates = new Map<string, ImageCandidate>();
+  const titleWords = (title ?? '').toLowerCase().split(/\W+/).filter((w) => w.length > 3);
+
+  const add = (raw: string | null, source: FieldSource, bonus: number) => {
+    const url = resolveUrl(raw, baseUrl);
+    if (!url) return;
+    const score = SOURCE_WEIGHT[source] + bonus;
+    const existing = candidates.get(url);
+    if (!existing || existing.score < score) candidates.set(url, { url, source, score });
+  };
+
+  for (const { source, images } of structured) {
+    images.forEach((image, index) => add(image, source, -index));
+  }
+  add(metaContent(doc, 'og:image:secure_url', 'og:image'), 'meta', 0);
+  add(metaContent(doc, 'twitter:image', 'twitter:image:src'), 'meta', -5);
+  add(doc.querySelector('link[rel="image_src"]')?.getAttribute('href') ?? null, 'meta', -5);
+
+  for (const img of queryAll(doc, 'img')) {
+    const src =
+      img.getAttribute('data-old-hires') ??
+      img.getAttribute('data-zoom-image') ??
+      img.getAttribute('data-src') ??
+      img.getAttribute('src') ??
+      img.getAttribute('srcset')?.split(',').pop()?.trim().split(/\s+/)[0] ??
+      null;
+    if (!src) continue;
+    const alt = (img.getAttribute('alt') ?? '').toLowerCase();
+    const hints = [img.getAttribute('id'), img.getAttribute('class'), alt].join(' ');
+    const altBonus = titleWords.filter((word) => alt.includes(word)).length * 5;
+    add(
+      src,
+      'dom',
+      scoreImage(src, hints, dimension(img.getAttribute('width')), dimension(img.getAttribute('height'))) +
+        altBonus,
+    );
+  }
+
+  return [...candidates.values()]
+    .map((candidate) => ({
+      ...candidate,
+      score: candidate.source === 'dom' ? candidate.score : candidate.score + scoreImage(candidate.url, '', 0, 0),
+    }))
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,68 @@
+import assert from 'node:assert/strict';
+import { parseAmount, parsePrice } from './price.ts';
+
+Deno.test('price: resolves separators from the number shape', () => {
+  assert.equal(parseAmount('1,29,999.00'), 129999);
+  assert.equal(parseAmount('1.299,00'), 1299);
+  assert.equal(parseAmount('1 299,00'), 1299);
+  assert.equal(parseAmount("1'299.00"), 1299);
+  assert.equal(parseAmount('1’299.00'), 1299);
+  assert.equal(parseAmount('1.299'), 1299);
+  assert.equal(parseAmount('1.299', 'KWD'), 1.299);
+});
+
+Deno.test('price: groups digits on a typographic apostrophe', () => {
+  assert.deepEqual(parsePrice('CHF 1’299.00'), {
+    amount: 1299,
+    currency: 'CHF',
+    max_amount: null,
+    list_price: null,
+    discount_percent: null,
+  });
+});
+
+Deno.test('price: a list-price label covers only the number after it', () => {
+  assert.deepEqual(parsePrice('MRP ₹2,000 ₹1,299'), {
+    amount: 1299,
+    currency: 'INR',
+    max_amount: null,
+    list_price: 2000,
+    discount_percent: 35,
+  });
+  assert.deepEqual(parsePrice('Was $49.99 Now $39.99'), {
+    amount: 39.99,
+    currency: 'USD',
+    max_amount: null,
+    list_price: 49.99,
+    discount_percent: 20,
+  });
+});
+
+Deno.test('price: applies a printed discount to a lone list price', () => {
+  assert.deepEqual(parsePrice('MRP ₹2,000 (35% off)'), {
+    amount: 1300,
+    currency: 'INR',
+    max_amount: null,
+    list_price: 2000,
+    discount_percent: 35,
+  });
+});
+
+Deno.test('price: ignores discounts of 100% or more', () => {
+  const price = parsePrice('₹499 with 100% cashback');
+
+  assert.equal(price.amount, 499);
+  assert.equal(price.discount_percent, null);
+});
+
+Deno.test('price: reads ranges and currencies from the context', () => {
+  assert.deepEqual(parsePrice('$12.99 – $19.99'), {
+    amount: 12.99,
+    currency: 'USD',
+    max_amount: 19.99,
+    list_price: null,
+    discount_percent: null,
+  });
+  assert.equal(parsePrice('$25', { url: 'https://shop.example.ca/p/1' }).currency, 'CAD');
+  assert.equal(parsePrice('1.299,00', { url: 'https://shop.example.de/p/1' }).currency, 'EUR');
+});
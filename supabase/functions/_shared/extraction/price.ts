@@ -0,0 +1,263 @@
+// Display prices as retailers print them: "₹1,299.00", "1.299,00 €",
+// "$12.99 – $19.99", "MRP ₹2,000 (35% off)". Separators are resolved from the
+// number's own shape (and the currency's minor unit when ambiguous), and
+// currencies are mapped to ISO 4217 codes.
+
+export interface ParsedPrice {
+  // Amount payable: the sale price when a list price is also shown, the
+  // lower bound of a range.
+  amount: number | null;
+  // ISO 4217 code, from the text or, failing that, the context.
+  currency: string | null;
+  // Upper bound when the text is a range.
+  max_amount: number | null;
+  // MRP / RRP / "was" price when shown alongside the sale price.
+  list_price: number | null;
+  discount_percent: number | null;
+}
+
+export interface PriceContext {
+  // Page URL; its TLD supplies the currency when the text names none.
+  url?: string;
+  // Currency to assume before falling back to the TLD (e.g. a retailer that
+  // only sells in one currency).
+  currency?: string | null;
+}
+
+// Longest symbols first so "C$" wins over "$" and "Rs." over "Rs".
+const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'],
+  ['CA$', 'CAD'],
+  ['AU$', 'AUD'],
+  ['NZ$', 'NZD'],
+  ['HK$', 'HKD'],
+  ['Mex$', 'MXN'],
+  ['C$', 'CAD'],
+  ['A$', 'AUD'],
+  ['S$', 'SGD'],
+  ['R$', 'BRL'],
+  ['Rs.', 'INR'],
+  ['Rs', 'INR'],
+  ['RM', 'MYR'],
+  ['Rp', 'IDR'],
+  ['zł', 'PLN'],
+  ['Kč', 'CZK'],
+  ['₹', 'INR'],
+  ['£', 'GBP'],
+  ['€', 'EUR'],
+  ['¥', 'JPY'],
+  ['￥', 'JPY'],
+  ['₩', 'KRW'],
+  ['₽', 'RUB'],
+  ['₺', 'TRY'],
+  ['₫', 'VND'],
+  ['฿', 'THB'],
+  ['₱', 'PHP'],
+  ['₪', 'ILS'],
+  ['$', 'USD'],
+];
+
+// Codes accepted when printed in the text or given by structured data.
+const ISO_CODES = new Set([
+  'AED', 'AUD', 'BDT', 'BGN', 'BHD', 'BRL', 'CAD', 'CHF', 'CLP', 'CNY', 'COP', 'CZK', 'DKK', 'EGP', 'EUR', 'GBP',
+  'HKD', 'HUF', 'IDR', 'ILS', 'INR', 'JOD', 'JPY', 'KES', 'KRW', 'KWD', 'LKR', 'MXN', 'MYR', 'NGN', 'NOK', 'NPR',
+  'NZD', 'OMR', 'PEN', 'PHP', 'PKR', 'PLN', 'QAR', 'RON', 'RUB', 'SAR', 'SEK', 'SGD', 'THB', 'TRY', 'TWD', 'UAH',
+  'USD', 'VND', 'ZAR',
+]);
+
+// Currencies whose prices carry three decimals, where "1.299" is 1.299.
+const THREE_DECIMAL_CURRENCIES = new Set(['BHD', 'JOD', 'KWD', 'OMR', 'TND']);
+
+// Country-code TLD → currency, for pages that print a bare number or "$".
+const TLD_CURRENCY: Record<string, string> = {
+  'in': 'INR',
+  'uk': 'GBP',
+  'de': 'EUR',
+  'fr': 'EUR',
+  'it': 'EUR',
+  'es': 'EUR',
+  'nl': 'EUR',
+  'be': 'EUR',
+  'at': 'EUR',
+  'ie': 'EUR',
+  'pt': 'EUR',
+  'fi': 'EUR',
+  'gr': 'EUR',
+  'ca': 'CAD',
+  'au': 'AUD',
+  'nz': 'NZD',
+  'jp': 'JPY',
+  'cn': 'CNY',
+  'kr': 'KRW',
+  'hk': 'HKD',
+  'sg': 'SGD',
+  'my': 'MYR',
+  'id': 'IDR',
+  'ph': 'PHP',
+  'th': 'THB',
+  'vn': 'VND',
+  'ae': 'AED',
+  'sa': 'SAR',
+  'qa': 'QAR',
+  'kw': 'KWD',
+  'bh': 'BHD',
+  'om': 'OMR',
+  'mx': 'MXN',
+  'br': 'BRL',
+  'ch': 'CHF',
+  'se': 'SEK',
+  'no': 'NOK',
+  'dk': 'DKK',
+  'pl': 'PLN',
+  'cz': 'CZK',
+  'tr': 'TRY',
+  'ru': 'RUB',
+  'za': 'ZAR',
+  'pk': 'PKR',
+  'bd': 'BDT',
+  'lk': 'LKR',
+};
+
+// "$" is the local dollar on these TLDs rather than USD.
+const DOLLAR_TLDS: Record<string, string> = {
+  ca: 'CAD',
+  au: 'AUD',
+  nz: 'NZD',
+  sg: 'SGD',
+  hk: 'HKD',
+  mx: 'MXN',
+};
+
+const LIST_PRICE_LABEL = /\b(m\.?\s?r\.?\s?p\.?|r\.?r\.?p\.?|list price|was|regular price|original price|uvp|statt|prix conseillé)\s*:?\s*$/i;
+const RANGE_SEPARATOR = /^\s*(-|–|—|to|bis|à|a)\s*$/i;
+// A whole percentage, not the tail of a longer number ("100% off" is not 0%).
+const DISCOUNT = /(?<![\d.,])(\d{1,3}(?:[.,]\d+)?)\s*%/;
+// A number with optional grouping: "1,29,999.00", "1.299,00", "1 299,00", "1'299.00", "1’299.00".
+const AMOUNT = /\d+(?:[.,'\u2019]\d{2,3}|[ \u00a0\u202f]\d{3}(?!\d))*(?:[.,]\d{1,3})?/g;
+
+const tldOf = (url: string | undefined): string => {
+  if (!url) return '';
+  try {
+    return new URL(url).hostname.split('.').pop() ?? '';
+  } catch {
+    return '';
+  }
+};
+
+export const currencyForUrl = (url: string | undefined): string | null => TLD_CURRENCY[tldOf(url)] ?? null;
+
+// Alphabetic symbols ("Rs", "RM") only count as whole words.
+const hasSymbol = (text: string, symbol: string): boolean =>
+  /^[A-Za-z]/.test(symbol)
+    ? new RegExp(`(^|[^A-Za-z])${symbol.replace(/[.$]/g, '\\$&')}(?![a-z])`).test(text)
+    : text.includes(symbol);
+
+// ISO code for a currency code or symbol as found in structured data
+// ("inr", "Rs.", "€"), or null when it is not recognised.
+export const normalizeCurrency = (value: unknown, context: PriceContext = {}): string | null => {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (ISO_CODES.has(trimmed.toUpperCase())) return trimmed.toUpperCase();
+  return currencyFromText(trimmed, context);
+};
+
+// The currency named in display text, by ISO code first, then symbol.
+export const currencyFromText = (text: string, context: PriceContext = {}): string | null => {
+  const code = text.match(/\b([A-Z]{3})\b/g)?.find((candidate) => ISO_CODES.has(candidate));
+  if (code) return code;
+  const symbol = CURRENCY_SYMBOLS.find(([candidate]) => hasSymbol(text, candidate));
+  if (!symbol) return null;
+  return symbol[0] === '$' ? DOLLAR_TLDS[tldOf(context.url)] ?? 'USD' : symbol[1];
+};
+
+// Reads one number, deciding which of "." / "," / space / "'" / "’" is the
+// decimal separator from its position and group sizes.
+export const parseAmount = (raw: string | null | undefined, currency: string | null = null): number | null => {
+  const token = raw?.match(AMOUNT)?.[0];
+  if (!token) return null;
+  const compact = token.replace(/[ \u00a0\u202f'\u2019]/g, '');
+  const separators = compact.match(/[.,]/g) ?? [];
+
+  let normalized: string;
+  if (separators.length === 0) {
+    normalized = compact;
+  } else if (new Set(separators).size === 2) {
+    // Both present: the last one is the decimal separator.
+    const decimal = compact.lastIndexOf('.') > compact.lastIndexOf(',') ? '.' : ',';
+    const grouping = decimal === '.' ? ',' : '.';
+    normalized = compact.split(grouping).join('').replace(decimal, '.');
+  } else if (separators.length > 1) {
+    // The same separator repeated is digit grouping ("1.299.000", "1,29,999").
+    normalized = compact.replace(/[.,]/g, '');
+  } else {
+    // A single separator followed by exactly three digits is grouping, except
+    // for currencies that price in thousandths.
+    const [whole, fraction] = compact.split(/[.,]/);
+    const isGrouping = fraction.length === 3 && !THREE_DECIMAL_CURRENCIES.has(currency ?? '') && whole !== '0';
+    normalized = isGrouping ? `${whole}${fraction}` : `${whole}.${fraction}`;
+  }
+
+  const parsed = parseFloat(normalized);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+export const parsePrice = (text: string | null | undefined, context: PriceContext = {}): ParsedPrice => {
+  const empty: ParsedPrice = { amount: null, currency: null, max_amount: null, list_price: null, discount_percent: null };
+  if (!text) return empty;
+
+  const currency = currencyFromText(text, context) ?? normalizeCurrency(context.currency) ?? currencyForUrl(context.url);
+  const discountMatch = text.match(DISCOUNT);
+  const percent = discountMatch ? parseAmount(discountMatch[1]) : null;
+  // 100% or more off is a promotion ("100% cashback"), not a price cut.
+  const discount = percent !== null && percent > 0 && percent < 100 ? percent : null;
+  const body = discountMatch ? text.replace(discountMatch[0], ' ') : text;
+
+  const matches = [...body.matchAll(AMOUNT)];
+  const amounts = matches
+    .map((match, index) => {
+      const start = match.index ?? 0;
+      // Label text between the previous number and this one, with currency
+      // symbols dropped, so "MRP" in "MRP ₹2,000 ₹1,299" labels only the first.
+      const previous = matches[index - 1];
+      const labelStart = previous ? (previous.index ?? 0) + previous[0].length : 0;
+      const label = body.slice(labelStart, start).replace(/[^\p{L}.:\s]/gu, ' ').trimEnd();
+      return {
+        value: parseAmount(match[0], currency),
+        start,
+        end: start + match[0].length,
+        isList: LIST_PRICE_LABEL.test(label),
+      };
+    })
+    .filter((entry): entry is typeof entry & { value: number } => entry.value !== null);
+  if (!amounts.length) return empty;
+
+  const listed = amounts.find((entry) => entry.isList)?.value ?? null;
+  const selling = amounts.filter((entry) => !entry.isList);
+
+  const result: ParsedPrice = { ...empty, currency, list_price: listed, discount_percent: discount };
+  if (selling.length >= 2) {
+    const [first, second] = selling;
+    const between = body.slice(first.end, second.start).replace(/[^\p{L}\-–—\s]/gu, '');
+    if (RANGE_SEPARATOR.test(between)) {
+      result.amount = Math.min(first.value, second.value);
+      result.max_amount = Math.max(first.value, second.value);
+    } else {
+      // Two unlabelled prices side by side are a sale price and a struck-out
+      // list price.
+      const higher = Math.max(first.value, second.value);
+      result.amount = Math.min(first.value, second.value);
+      if (higher > result.amount) result.list_price ??= higher;
+    }
+  } else if (selling.length === 1) {
+    result.amount = selling[0].value;
+  } else if (listed !== null) {
+    // Only the list price is printed; apply the discount when there is one.
+    result.amount = discount !== null ? Math.round(listed * (100 - discount)) / 100 : listed;
+  }
+
+  const { amount, list_price: listPrice } = result;
+  if (listPrice !== null && amount !== null && result.discount_percent === null && listPrice > amount) {
+    result.discount_percent = Math.round((1 - amount / listPrice) * 100);
+  }
+  return result;
+};
@@ -0,0 +1,159 @@
+// Collects reviews beyond the handful embedded in a product page by walking
+// the product's review listing: the site extractor's review pages when it
+// has them, else a Yotpo widget's API, else the page's own "see all reviews"
+// link followed through its "next" links.
+import { cleanText, documentBaseUrl, type HTMLDocument, parseHtml, queryAll, resolveUrl } from './dom.ts';
+import { extractPageReviews } from './extractors/generic.ts';
+import { findSiteExtractor, type ReviewPages } from './extractors/registry.ts';
+import { buildReview, jsonReviewParser, reviewKey } from './reviews.ts';
+import type { ExtractedReview } from './types.ts';
+
+export interface CrawlOptions {
+  // Overall caps; each listing's own `maxPages` applies as well.
+  maxPages?: number;
+  maxReviews?: number;
+}
+
+const DEFAULT_MAX_PAGES = 5;
+const DEFAULT_MAX_REVIEWS = 150;
+const PAGE_TIMEOUT_MS = 6000;
+// Pause between pages of one listing so retailers do not see a burst.
+const PAGE_DELAY_MS = 500;
+
+const SEE_ALL_REVIEWS = /\b(see|read|view|show)\s+(all|more)\b.*\breviews?\b|\ball\s+\d[\d,.]*\s+reviews\b/i;
+const NEXT_LABEL = /^(next|next page|›|»|→)$/i;
+
+interface YotpoResponse {
+  response?: {
+    reviews?: {
+      content?: string;
+      title?: string;
+      score?: number;
+      created_at?: string;
+      verified_buyer?: boolean;
+      user?: { display_name?: string };
+    }[];
+  };
+}
+
+const yotpoReviewPages = (doc: HTMLDocument): ReviewPages | null => {
+  const widget = doc.querySelector('.yotpo[data-product-id], [data-yotpo-product-id]');
+  const productId = widget?.getAttribute('data-product-id') ?? widget?.getAttribute('data-yotpo-product-id');
+  const appKey = widget?.getAttribute('data-appkey') ??
+    queryAll(doc, 'script[src*="yotpo.com"]')
+      .map((script) => script.getAttribute('src')?.match(/yotpo\.com\/(?:v1\/loader\/)?([A-Za-z0-9]{20,})/)?.[1])
+      .find(Boolean);
+  if (!productId || !appKey) return null;
+  return {
+    maxPages: 4,
+    url: (page) =>
+      `https://api-cdn.yotpo.com/v1/widget/${appKey}/products/${encodeURIComponent(productId)}/reviews.json?page=${page}&per_page=50`,
+    parse: jsonReviewParser<YotpoResponse>((data) =>
+      (data.response?.reviews ?? []).map((review) =>
+        buildReview({
+          author: review.user?.display_name,
+          rating: review.score,
+          title: review.title,
+          body: review.content,
+          date: review.created_at,
+          verified_purchase: review.verified_buyer ?? null,
+        }, 'api')
+      )
+    ),
+  };
+};
+
+const nextLink = (body: string, url: string): string | null => {
+  const doc = parseHtml(body);
+  if (!doc) return null;
+  const href = doc.querySelector('link[rel="next"], a[rel="next"]')?.getAttribute('href') ??
+    queryAll(doc, 'a[href]')
+      .find((a) => NEXT_LABEL.test(cleanText(a.textContent) ?? '') || /^next/i.test(a.getAttribute('aria-label') ?? ''))
+      ?.getAttribute('href');
+  return resolveUrl(href, documentBaseUrl(doc, url));
+};
+
+// A "See all 1,234 reviews" link on the same site, then its "next" links.
+const linkedReviewPages = (doc: HTMLDocument, pageUrl: string): ReviewPages | null => {
+  const link = queryAll(doc, 'a[href]').find((a) => SEE_ALL_REVIEWS.test(cleanText(a.textContent) ?? ''));
+  const first = resolveUrl(link?.getAttribute('href'), documentBaseUrl(doc, pageUrl));
+  const { hostname } = new URL(pageUrl);
+  const sameSite = (url: string | null) => !!url && new URL(url).hostname === hostname;
+  if (!sameSite(first)) return null;
+  return {
+    maxPages: 5,
+    url: (page, previous) => {
+      if (page === 1) return first;
+      const next = previous ? nextLink(previous.body, previous.url) : null;
+      return sameSite(next) ? next : null;
+    },
+    parse: (body) => {
+      const page = parseHtml(body);
+      return page ? extractPageReviews(page) : [];
+    },
+  };
+};
+
+export const findReviewPages = (doc: HTMLDocument, pageUrl: string): ReviewPages | null =>
+  findSiteExtractor(pageUrl, doc)?.reviewPages?.(doc, pageUrl) ??
+  yotpoReviewPages(doc) ??
+  linkedReviewPages(doc, pageUrl);
+
+// Fetches review pages in order until a cap is reached, a page fails or a
+// page yields nothing new (past the end, or a listing that ignores the page
+// parameter). Reviews are deduplicated across pages.
+export const collectReviews = async (
+  html: string,
+  pageUrl: string,
+  { maxPages = DEFAULT_MAX_PAGES, maxReviews = DEFAULT_MAX_REVIEWS }: CrawlOptions = {},
+): Promise<ExtractedReview[]> => {
+  const doc = parseHtml(html);
+  const pages = doc ? findReviewPages(doc, pageUrl) : null;
+  if (!pages) return [];
+
+  const reviews: ExtractedReview[] = [];
+  const seen = new Set<string>();
+  const visited = new Set<string>();
+  let previous: { url: string; body: string } | null = null;
+  const pageLimit = Math.min(maxPages, pages.maxPages);
+
+  for (let page = 1; page <= pageLimit && reviews.length < maxReviews; page++) {
+    const url = pages.url(page, previous);
+    if (!url || visited.has(url)) break;
+    visited.add(url);
+    if (page > 1) await new Promise((resolve) => setTimeout(resolve, PAGE_DELAY_MS));
+
+    let body: string;
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+          'Accept': 'text/html,application/xhtml+xml,application/json;q=0.9,*/*;q=0.8',
+        },
+        signal: AbortSignal.timeout(PAGE_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        await response.body?.cancel();
+        console.error('Review page request failed:', url, response.status);
+        break;
+      }
+      body = await response.text();
+    } catch (e) {
+      console.error('Review page request failed:', url, e);
+      break;
+    }
+
+    const fresh = pages.parse(body).filter((review) => {
+      const key = reviewKey(review);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (!fresh.length) break;
+    reviews.push(...fresh);
+    previous = { url, body };
+  }
+
+  console.log(`Collected ${reviews.length} reviews from ${visited.size} review pages`);
+  return reviews.slice(0, maxReviews);
+};
@@ -0,0 +1,224 @@
+// Customer reviews embedded in product pages: the common third-party review
+// widgets, plus the helpers the structured-data and site extractors use to
+// build review records.
+import { cleanText, type Element, type HTMLDocument, parseHtml, queryAll } from './dom.ts';
+import type { ExtractedReview, FieldSource } from './types.ts';
+
+// Shorter bodies ("Good", "ok") say nothing about the product.
+const MIN_BODY_LENGTH = 12;
+
+export interface ReviewValues {
+  author?: string | null;
+  rating?: number | null;
+  // Top of the rating scale when it is not five.
+  best_rating?: number | null;
+  title?: string | null;
+  body?: string | null;
+  date?: string | null;
+  verified_purchase?: boolean | null;
+}
+
+// "2024-03-12", "12 March 2024", "Reviewed in India on 12 March 2024" →
+// "2024-03-12"; null when no date can be read.
+export const toIsoDate = (value: string | null | undefined): string | null => {
+  if (!value) return null;
+  const candidates = [value, value.replace(/^.*\bon\s+/i, '')];
+  for (const candidate of candidates) {
+    const time = Date.parse(candidate.trim());
+    if (Number.isFinite(time)) return new Date(time).toISOString().slice(0, 10);
+  }
+  return null;
+};
+
+// Reads "4.0 out of 5 stars", "Rated 4 out of 5", "4/5" or a bare "4" as stars
+// on a five-point scale.
+export const starRating = (text: string | null | undefined): number | null => {
+  if (!text) return null;
+  const scaled = text.match(/(\d+(?:[.,]\d+)?)\s*(?:out of|of|\/)\s*(\d+)/i);
+  if (scaled) {
+    const value = parseFloat(scaled[1].replace(',', '.'));
+    const best = parseFloat(scaled[2]);
+    return best > 0 ? Math.round((value / best) * 5 * 100) / 100 : null;
+  }
+  const value = parseFloat(text.match(/\d+(?:[.,]\d+)?/)?.[0].replace(',', '.') ?? '');
+  return Number.isFinite(value) && value >= 0 && value <= 5 ? value : null;
+};
+
+export const buildReview = (values: ReviewValues, source: FieldSource): ExtractedReview | null => {
+  const body = cleanText(values.body);
+  if (!body || body.length < MIN_BODY_LENGTH) return null;
+  const best = values.best_rating ?? 5;
+  const rating = typeof values.rating === 'number' && Number.isFinite(values.rating) && best > 0
+    ? Math.round((values.rating / best) * 5 * 100) / 100
+    : null;
+  return {
+    author: cleanText(values.author),
+    rating: rating !== null && rating >= 0 && rating <= 5 ? rating : null,
+    title: cleanText(values.title),
+    body,
+    date: toIsoDate(values.date),
+    verified_purchase: values.verified_purchase ?? null,
+    source,
+  };
+};
+
+// Selectors for one review list, relative to each review element.
+export interface ReviewSelectors {
+  item: string;
+  body: string;
+  title?: string;
+  author?: string;
+  // Element whose aria-label, title, a rating data attribute or text holds
+  // the stars.
+  rating?: string;
+  // Element whose datetime, data-content or title attribute or text holds
+  // the date.
+  date?: string;
+  // Present only on verified-purchase reviews.
+  verified?: string;
+}
+
+const textOf = (root: Element, selector: string | undefined): string | null => {
+  if (!selector) return null;
+  for (const el of queryAll(root, selector)) {
+    const text = cleanText(el.textContent);
+    if (text) return text;
+  }
+  return null;
+};
+
+const attrOrText = (root: Element, selector: string | undefined, attrs: string[]): string | null => {
+  const el = selector ? root.querySelector(selector) : null;
+  if (!el) return null;
+  for (const attr of attrs) {
+    const value = el.getAttribute(attr)?.trim();
+    if (value) return value;
+  }
+  return cleanText(el.textContent);
+};
+
+export const readReviews = (
+  root: HTMLDocument | Element,
+  selectors: ReviewSelectors,
+  source: FieldSource,
+): ExtractedReview[] =>
+  queryAll(root, selectors.item)
+    .map((item) =>
+      buildReview({
+        author: textOf(item, selectors.author),
+        rating: starRating(
+          attrOrText(item, selectors.rating, ['data-score', 'data-rating', 'aria-label', 'title']),
+        ),
+        title: textOf(item, selectors.title),
+        body: textOf(item, selectors.body),
+        date: attrOrText(item, selectors.date, ['datetime', 'data-content', 'content', 'title']),
+        verified_purchase: selectors.verified ? !!item.querySelector(selectors.verified) : null,
+      }, source)
+    )
+    .filter((review): review is ExtractedReview => review !== null);
+
+// Parser for review listing pages that render reviews with `selectors`.
+export const htmlReviewParser = (selectors: ReviewSelectors, source: FieldSource = 'site') =>
+  (body: string): ExtractedReview[] => {
+    const doc = parseHtml(body);
+    return doc ? readReviews(doc, selectors, source) : [];
+  };
+
+// Parser for review APIs that answer with JSON.
+export const jsonReviewParser = <T>(read: (data: T) => (ExtractedReview | null)[]) =>
+  (body: string): ExtractedReview[] => {
+    try {
+      return read(JSON.parse(body) as T).filter((review): review is ExtractedReview => review !== null);
+    } catch {
+      return [];
+    }
+  };
+
+// Third-party widgets and platform defaults found across storefronts.
+const REVIEW_WIDGETS: ReviewSelectors[] = [
+  // Judge.me
+  {
+    item: '.jdgm-rev',
+    body: '.jdgm-rev__body',
+    title: '.jdgm-rev__title',
+    author: '.jdgm-rev__author',
+    rating: '.jdgm-rev__rating',
+    date: '.jdgm-rev__timestamp',
+    verified: '.jdgm-rev__buyer-badge',
+  },
+  // Yotpo
+  {
+    item: '.yotpo-review',
+    body: '.content-review, .yotpo-read-more-text',
+    title: '.content-title, .yotpo-review-title',
+    author: '.yotpo-user-name, .yotpo-reviewer-name',
+    rating: '.yotpo-review-stars .sr-only, .yotpo-review-rating-title',
+    date: '.yotpo-review-date, .yotpo-date',
+    verified: '.yotpo-verified-buyer, .yotpo-user-title',
+  },
+  // Shopify Product Reviews
+  {
+    item: '.spr-review',
+    body: '.spr-review-content-body',
+    title: '.spr-review-header-title',
+    author: '.spr-review-header-byline strong',
+    rating: '.spr-starratings',
+  },
+  // Stamped.io
+  {
+    item: '.stamped-review',
+    body: '.stamped-review-content-body',
+    title: '.stamped-review-header-title',
+    author: '.author',
+    rating: '.stamped-starratings',
+    date: '.created',
+    verified: '.stamped-verified-badge',
+  },
+  // Okendo
+  {
+    item: '.oke-review, .oke-w-review',
+    body: '.oke-reviewContent-body',
+    title: '.oke-reviewContent-title',
+    author: '.oke-w-reviewer-name',
+    rating: '.oke-stars, .oke-w-reviewRating',
+    date: '.oke-reviewContent-date',
+    verified: '.oke-w-reviewer-verified',
+  },
+  // Bazaarvoice
+  {
+    item: '.bv-content-review',
+    body: '.bv-content-summary-body-text',
+    title: '.bv-content-title',
+    author: '.bv-author',
+    rating: '.bv-content-rating .bv-off-screen',
+    date: '.bv-content-datetime-stamp',
+    verified: '.bv-badge-verifiedPurchaser',
+  },
+  // WooCommerce
+  {
+    item: '.commentlist li.review',
+    body: '.description',
+    author: '.woocommerce-review__author',
+    rating: '.star-rating',
+    date: 'time',
+    verified: '.woocommerce-review__verified',
+  },
+];
+
+export const extractReviewWidgets = (doc: HTMLDocument): ExtractedReview[] =>
+  REVIEW_WIDGETS.flatMap((widget) => readReviews(doc, widget, 'dom'));
+
+export const reviewKey = (review: ExtractedReview) =>
+  review.body.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim().slice(0, 160);
+
+// Keeps the first copy of each review; the same review is often published
+// both in JSON-LD and in the rendered widget.
+export const dedupeReviews = (reviews: ExtractedReview[]): ExtractedReview[] => {
+  const seen = new Set<string>();
+  return reviews.filter((review) => {
+    const key = reviewKey(review);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
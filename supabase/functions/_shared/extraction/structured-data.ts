@@ -0,0 +1,279 @@
+// Structured product data embedded in product pages: schema.org JSON-LD,
+// schema.org microdata and Open Graph / Facebook product meta tags.
+import { cleanText, decodeEntities, type Element, type HTMLDocument, metaContent, queryAll } from './dom.ts';
+import { normalizeCurrency, parseAmount } from './price.ts';
+import { buildReview } from './reviews.ts';
+import type { ExtractedReview } from './types.ts';
+
+export interface StructuredProductData {
+  name: string | null;
+  description: string | null;
+  images: string[];
+  price: number | null;
+  currency: string | null;
+  rating: number | null;
+  review_count: number | null;
+  brand: string | null;
+  sku: string | null;
+  gtin: string | null;
+  mpn: string | null;
+  reviews: ExtractedReview[];
+}
+
+type JsonLdNode = Record<string, unknown>;
+
+const GTIN_KEYS = ['gtin13', 'gtin12', 'gtin14', 'gtin8', 'gtin'];
+
+export const emptyStructuredData = (): StructuredProductData => ({
+  name: null,
+  description: null,
+  images: [],
+  price: null,
+  currency: null,
+  rating: null,
+  review_count: null,
+  brand: null,
+  sku: null,
+  gtin: null,
+  mpn: null,
+  reviews: [],
+});
+
+const asArray = <T>(value: T | T[] | undefined | null): T[] => {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+const toText = (value: unknown): string | null => {
+  if (typeof value === 'string') return cleanText(value);
+  if (typeof value === 'number') return String(value);
+  return null;
+};
+
+export const toNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  // Machine-readable values ("1299.00") use a dot; anything else is read as a
+  // display number ("1.299,00").
+  if (/^\s*\d+(\.\d+)?\s*$/.test(value)) return parseFloat(value);
+  return parseAmount(value);
+};
+
+const hasType = (node: JsonLdNode, type: string): boolean =>
+  asArray(node['@type'] as string | string[]).some(
+    (t) => typeof t === 'string' && t.replace(/^.*[/#]/, '').toLowerCase() === type.toLowerCase(),
+  );
+
+// Walks arrays, @graph containers and nested objects so Product nodes are
+// found regardless of how the publishing platform nests them.
+const collectNodes = (value: unknown, out: JsonLdNode[] = []): JsonLdNode[] => {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectNodes(item, out));
+  } else if (value && typeof value === 'object') {
+    const node = value as JsonLdNode;
+    out.push(node);
+    for (const child of Object.values(node)) {
+      if (child && typeof child === 'object') collectNodes(child, out);
+    }
+  }
+  return out;
+};
+
+const parseJsonLd = (raw: string): unknown => {
+  const text = raw.replace(/^\s*<!--|-->\s*$/g, '').trim();
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Some CMSes emit raw newlines/tabs inside string values.
+    try {
+      return JSON.parse(text.replace(/[\n\r\t]+/g, ' '));
+    } catch {
+      return null;
+    }
+  }
+};
+
+const imageUrls = (value: unknown): string[] =>
+  asArray(value as unknown).flatMap((item) => {
+    if (typeof item === 'string') return [decodeEntities(item.trim())];
+    if (item && typeof item === 'object') {
+      const node = item as JsonLdNode;
+      return imageUrls(node.url ?? node.contentUrl);
+    }
+    return [];
+  }).filter(Boolean);
+
+const pickOffer = (offers: unknown): JsonLdNode | null => {
+  const candidates = asArray(offers as JsonLdNode | JsonLdNode[]).filter(
+    (o) => o && typeof o === 'object',
+  );
+  return (
+    candidates.find((o) => toNumber(o.price ?? o.lowPrice) !== null) ??
+    candidates.find((o) => o.priceSpecification) ??
+    candidates[0] ??
+    null
+  );
+};
+
+const readOffer = (offer: JsonLdNode, data: StructuredProductData) => {
+  const spec = asArray(offer.priceSpecification as JsonLdNode | JsonLdNode[])[0];
+  data.price ??= toNumber(offer.price ?? offer.lowPrice ?? spec?.price);
+  data.currency ??= normalizeCurrency(offer.priceCurrency ?? spec?.priceCurrency);
+};
+
+// Ratings published on a 10- or 100-point scale are rescaled to five stars.
+const readRating = (rating: JsonLdNode, data: StructuredProductData) => {
+  const value = toNumber(rating.ratingValue);
+  const best = toNumber(rating.bestRating) ?? 5;
+  if (value !== null && data.rating === null) {
+    data.rating = best > 0 && best !== 5 ? Math.round((value / best) * 5 * 100) / 100 : value;
+  }
+  data.review_count ??= toNumber(rating.reviewCount ?? rating.ratingCount);
+};
+
+const authorName = (value: unknown): string | null => {
+  const author = asArray(value as unknown)[0];
+  if (author && typeof author === 'object') return toText((author as JsonLdNode).name);
+  return toText(author);
+};
+
+const readReview = (node: JsonLdNode): ExtractedReview | null => {
+  const rating = asArray(node.reviewRating as JsonLdNode | JsonLdNode[])[0];
+  return buildReview({
+    author: authorName(node.author),
+    rating: rating && typeof rating === 'object' ? toNumber(rating.ratingValue) : null,
+    best_rating: rating && typeof rating === 'object' ? toNumber(rating.bestRating) : null,
+    title: toText(node.name ?? node.headline),
+    body: toText(node.reviewBody ?? node.description),
+    date: toText(node.datePublished ?? node.dateCreated),
+  }, 'json-ld');
+};
+
+export const jsonLdBlocks = (doc: HTMLDocument): string[] =>
+  queryAll(doc, 'script')
+    .filter((script) => /application\/ld\+json/i.test(script.getAttribute('type') ?? ''))
+    .map((script) => script.textContent);
+
+export const extractJsonLdProduct = (blocks: string[]): StructuredProductData => {
+  const data = emptyStructuredData();
+  const nodes = blocks.flatMap((block) => collectNodes(parseJsonLd(block)));
+  const products = nodes.filter((n) => hasType(n, 'Product') || hasType(n, 'ProductGroup'));
+
+  for (const product of products) {
+    const offer = pickOffer(product.offers);
+    if (offer) readOffer(offer, data);
+
+    const rating = asArray(product.aggregateRating as JsonLdNode | JsonLdNode[])[0];
+    if (rating && typeof rating === 'object') readRating(rating, data);
+
+    const brand = asArray(product.brand as unknown)[0];
+    data.brand ??= toText(brand) ?? (brand && typeof brand === 'object' ? toText((brand as JsonLdNode).name) : null);
+    data.name ??= toText(product.name);
+    data.description ??= toText(product.description);
+    data.sku ??= toText(product.sku);
+    data.mpn ??= toText(product.mpn);
+    data.gtin ??= GTIN_KEYS.map((key) => toText(product[key])).find(Boolean) ?? null;
+    data.images.push(...imageUrls(product.image));
+    for (const review of asArray((product.review ?? product.reviews) as JsonLdNode | JsonLdNode[])) {
+      const parsed = review && typeof review === 'object' ? readReview(review) : null;
+      if (parsed) data.reviews.push(parsed);
+    }
+  }
+
+  // Offers and ratings are occasionally published as standalone nodes.
+  if (data.price === null) {
+    const offer = nodes.find((n) => hasType(n, 'Offer') || hasType(n, 'AggregateOffer'));
+    if (offer) readOffer(offer, data);
+  }
+  if (data.rating === null) {
+    const rating = nodes.find((n) => hasType(n, 'AggregateRating'));
+    if (rating) readRating(rating, data);
+  }
+  if (data.reviews.length === 0) {
+    data.reviews = nodes
+      .filter((n) => hasType(n, 'Review'))
+      .map(readReview)
+      .filter((review): review is ExtractedReview => review !== null);
+  }
+
+  return data;
+};
+
+const itemValue = (el: Element): string =>
+  (
+    el.getAttribute('content') ??
+    el.getAttribute('value') ??
+    el.getAttribute('datetime') ??
+    (el.tagName === 'IMG' ? el.getAttribute('src') : null) ??
+    (el.tagName === 'LINK' || el.tagName === 'A' ? el.getAttribute('href') : null) ??
+    el.textContent
+  ).trim();
+
+const reviewProp = (review: Element, ...props: string[]): string | null => {
+  for (const prop of props) {
+    const el = review.querySelector(`[itemprop~="${prop}"]`);
+    if (el) return itemValue(el) || null;
+  }
+  return null;
+};
+
+// The author is either a plain value or a Person scope with its own name.
+const readMicrodataReview = (review: Element): ExtractedReview | null => {
+  const author = review.querySelector('[itemprop~="author"]');
+  return buildReview({
+    author: author ? (author.hasAttribute('itemscope') ? reviewProp(author, 'name') : itemValue(author)) : null,
+    rating: toNumber(reviewProp(review, 'ratingValue')),
+    best_rating: toNumber(reviewProp(review, 'bestRating')),
+    title: reviewProp(review, 'headline'),
+    body: reviewProp(review, 'reviewBody', 'description'),
+    date: reviewProp(review, 'datePublished', 'dateCreated'),
+  }, 'microdata');
+};
+
+// Reads itemprop values from the Product itemscope when one exists, so
+// breadcrumb or seller `name` props elsewhere on the page are ignored.
+export const extractMicrodata = (doc: HTMLDocument): StructuredProductData => {
+  const data = emptyStructuredData();
+  const scope = queryAll(doc, '[itemscope][itemtype]').find((el) =>
+    /schema\.org\/Product(Group)?$/i.test(el.getAttribute('itemtype') ?? '')
+  );
+  const values: Record<string, string> = {};
+  const images: string[] = [];
+
+  for (const el of queryAll(scope ?? doc, '[itemprop]')) {
+    const value = itemValue(el);
+    if (!value) continue;
+    for (const prop of (el.getAttribute('itemprop') ?? '').split(/\s+/)) {
+      if (prop === 'image') images.push(value);
+      else if (prop && values[prop] === undefined) values[prop] = value;
+    }
+  }
+
+  data.name = scope ? cleanText(values.name) : null;
+  data.description = scope ? cleanText(values.description) : null;
+  data.images = images;
+  data.price = toNumber(values.price ?? values.lowPrice);
+  data.currency = normalizeCurrency(values.priceCurrency);
+  readRating({ ratingValue: values.ratingValue, bestRating: values.bestRating }, data);
+  data.review_count = toNumber(values.reviewCount ?? values.ratingCount);
+  data.brand = cleanText(values.brand);
+  data.sku = values.sku ?? null;
+  data.mpn = values.mpn ?? null;
+  data.gtin = GTIN_KEYS.map((key) => values[key]).find(Boolean) ?? null;
+  data.reviews = queryAll(scope ?? doc, '[itemscope][itemtype]')
+    .filter((el) => /schema\.org\/Review$/i.test(el.getAttribute('itemtype') ?? ''))
+    .map(readMicrodataReview)
+    .filter((review): review is ExtractedReview => review !== null);
+  return data;
+};
+
+export const extractProductMetaTags = (doc: HTMLDocument): StructuredProductData => {
+  const data = emptyStructuredData();
+  data.price = toNumber(metaContent(doc, 'product:price:amount', 'og:price:amount'));
+  data.currency = normalizeCurrency(metaContent(doc, 'product:price:currency', 'og:price:currency'));
+  data.brand = metaContent(doc, 'product:brand', 'og:brand');
+  data.sku = metaContent(doc, 'product:retailer_item_id');
+  data.gtin = metaContent(doc, 'product:ean', 'product:upc', 'product:gtin');
+  data.mpn = metaContent(doc, 'product:mfr_part_no');
+  return data;
+};
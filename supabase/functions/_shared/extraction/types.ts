@@ -0,0 +1,124 @@
+// Where an extracted value came from, most trustworthy first.
+export type FieldSource =
+  | 'api'
+  | 'site'
+  | 'json-ld'
+  | 'microdata'
+  | 'meta'
+  | 'dom'
+  | 'firecrawl'
+  // Inferred from the page URL (currency from the country TLD).
+  | 'url';
+
+export interface ProductVariant {
+  id: string;
+  title: string | null;
+  sku: string | null;
+  price: number | null;
+  compare_at_price: number | null;
+  available: boolean | null;
+  inventory_quantity: number | null;
+}
+
+// A customer review published on the product page.
+export interface ExtractedReview {
+  author: string | null;
+  // Stars on a five-point scale.
+  rating: number | null;
+  title: string | null;
+  body: string;
+  // ISO date (YYYY-MM-DD) when the page gives a parseable one.
+  date: string | null;
+  verified_purchase: boolean | null;
+  source: FieldSource;
+}
+
+export interface ExtractedProduct {
+  url: string;
+  // Id of the extractor that produced the record ('generic' when no
+  // site-specific extractor matched).
+  extractor: string;
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  images: string[];
+  price: number | null;
+  currency: string | null;
+  rating: number | null;
+  review_count: number | null;
+  brand: string | null;
+  sku: string | null;
+  gtin: string | null;
+  mpn: string | null;
+  in_stock: boolean | null;
+  canonical_url: string | null;
+  variants: ProductVariant[];
+  reviews: ExtractedReview[];
+  sources: Partial<Record<ExtractedField, FieldSource>>;
+}
+
+export type ExtractedField = Exclude<
+  keyof ExtractedProduct,
+  'url' | 'extractor' | 'images' | 'variants' | 'reviews' | 'sources'
+>;
+
+export const emptyExtractedProduct = (url: string, extractor = 'generic'): ExtractedProduct => ({
+  url,
+  extractor,
+  title: null,
+  description: null,
+  image: null,
+  images: [],
+  price: null,
+  currency: null,
+  rating: null,
+  review_count: null,
+  brand: null,
+  sku: null,
+  gtin: null,
+  mpn: null,
+  in_stock: null,
+  canonical_url: null,
+  variants: [],
+  reviews: [],
+  sources: {},
+});
+
+// Fills empty fields of `product` from `values`, tagging each with `source`.
+// Fields that already hold a value are left untouched.
+export const fillFields = (
+  product: ExtractedProduct,
+  source: FieldSource,
+  values: Partial<Record<ExtractedField, string | number | boolean | null | undefined>>,
+): ExtractedProduct => {
+  for (const [field, value] of Object.entries(values) as [ExtractedField, unknown][]) {
+    if (value === null || value === undefined || value === '') continue;
+    if (product[field] !== null) continue;
+    (product as unknown as Record<string, unknown>)[field] = value;
+    product.sources[field] = source;
+  }
+  return product;
+};
+
+// Combines two records field by field, preferring `primary` and keeping the
+// source tag of whichever record supplied each value.
+export const mergeProducts = (
+  primary: ExtractedProduct,
+  fallback: ExtractedProduct,
+): ExtractedProduct => {
+  const merged: ExtractedProduct = {
+    ...primary,
+    images: [...new Set([...primary.images, ...fallback.images])],
+    variants: primary.variants.length > 0 ? primary.variants : fallback.variants,
+    // Both usually carry the same reviews; extractProduct deduplicates.
+    reviews: [...primary.reviews, ...fallback.reviews],
+    sources: { ...primary.sources },
+  };
+  for (const field of Object.keys(fallback.sources) as ExtractedField[]) {
+    if (merged[field] === null && fallback[field] !== null) {
+      (merged as unknown as Record<string, unknown>)[field] = fallback[field];
+      merged.sources[field] = fallback.sources[field];
+    }
+  }
+  return merged;
+};
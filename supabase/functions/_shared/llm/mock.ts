@@ -0,0 +1,13 @@
+// Deterministic provider for offline runs and tests: no network, the same
+// reply for the same conversation.
+import type { ChatMessage, ChatResult, LlmProvider, LlmSettings } from './types.ts';
+
+export const createMockProvider = (
+  settings: LlmSettings,
+  reply: (messages: ChatMessage[]) => string,
+): LlmProvider => ({
+  id: 'mock',
+  settings,
+  chat: (messages: ChatMessage[]): Promise<ChatResult> =>
+    Promise.resolve({ ok: true, content: reply(messages), model: settings.model }),
+});
@@ -0,0 +1,74 @@
+// Any endpoint that speaks the OpenAI chat completions API: the Lovable AI
+// gateway, hosted OpenAI-compatible APIs and local Ollama or llama.cpp
+// servers.
+import type { ChatMessage, ChatOptions, ChatResult, LlmProvider, LlmSettings } from './types.ts';
+
+export interface OpenAiCompatibleConfig {
+  id: string;
+  // Base URL up to and including the version, e.g. http://localhost:11434/v1.
+  baseUrl: string;
+  // Local servers usually need none.
+  apiKey?: string;
+  timeoutMs: number;
+  settings: LlmSettings;
+}
+
+interface ChatCompletion {
+  model?: string;
+  choices?: { message?: { content?: string | null } }[];
+}
+
+// Retry-After is either a number of seconds or an HTTP date.
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null;
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) return seconds >= 0 ? seconds * 1000 : null;
+  const at = Date.parse(value);
+  return Number.isFinite(at) ? Math.max(0, at - Date.now()) : null;
+};
+
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): LlmProvider => ({
+  id: config.id,
+  settings: config.settings,
+  chat: async (messages: ChatMessage[], options: ChatOptions = {}): Promise<ChatResult> => {
+    let response: Response;
+    try {
+      response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: config.settings.model,
+          messages,
+          temperature: options.temperature ?? config.settings.temperature,
+          max_tokens: options.maxTokens ?? config.settings.maxTokens,
+        }),
+        signal: AbortSignal.timeout(config.timeoutMs),
+      });
+    } catch (e) {
+      return { ok: false, status: 0, error: e instanceof Error ? e.message : String(e) };
+    }
+
+    if (!response.ok) {
+      const retryAfterMs = parseRetryAfter(response.headers.get('Retry-After'));
+      return {
+        ok: false,
+        status: response.status,
+        error: await response.text(),
+        ...(retryAfterMs !== null ? { retryAfterMs } : {}),
+      };
+    }
+    try {
+      const data = await response.json() as ChatCompletion;
+      return {
+        ok: true,
+        content: data.choices?.[0]?.message?.content ?? null,
+        model: data.model ?? config.settings.model,
+      };
+    } catch (e) {
+      return { ok: false, status: response.status, error: `Invalid completion body: ${e instanceof Error ? e.message : String(e)}` };
+    }
+  },
+});
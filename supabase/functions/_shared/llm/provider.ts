@@ -0,0 +1,116 @@
+// Picks the analysis model providers from environment configuration:
+//
+//   LLM_PROVIDER                 lovable (default), openai-compatible or mock
+//   LLM_FALLBACK_MODEL           another model on the same provider, tried
+//                                when the primary keeps failing
+//   LLM_FALLBACK_PROVIDER        another provider, tried after that
+//   LLM_RETRY_BUDGET_MS          time one call may spend retrying
+//   LOVABLE_API_KEY              Lovable AI gateway key
+//   OPENAI_COMPATIBLE_BASE_URL   e.g. http://localhost:11434/v1 for Ollama
+//   OPENAI_COMPATIBLE_API_KEY    optional
+//   MOCK_LLM_REPLY               fixed reply for the mock provider
+//
+// Each provider reads its own <PREFIX>_MODEL, <PREFIX>_TEMPERATURE,
+// <PREFIX>_MAX_TOKENS and <PREFIX>_TIMEOUT_MS, with the prefixes LOVABLE,
+// OPENAI_COMPATIBLE and MOCK.
+import { createMockProvider } from './mock.ts';
+import { createOpenAiCompatibleProvider } from './openai-compatible.ts';
+import { createResilientClient, DEFAULT_RETRY_OPTIONS, type ResilientClient } from './resilient.ts';
+import type { ChatMessage, LlmProvider, LlmSettings } from './types.ts';
+
+export type LlmProviderId = 'lovable' | 'openai-compatible' | 'mock';
+
+const LOVABLE_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1';
+
+const DEFAULTS: Record<LlmProviderId, LlmSettings & { timeoutMs: number }> = {
+  'lovable': { model: 'google/gemini-2.5-flash', temperature: 0.7, maxTokens: 1500, timeoutMs: 60_000 },
+  // Local models are slower and need the longer budget.
+  'openai-compatible': { model: '', temperature: 0.7, maxTokens: 1500, timeoutMs: 180_000 },
+  'mock': { model: 'mock', temperature: 0, maxTokens: 1500, timeoutMs: 0 },
+};
+
+const PREFIXES: Record<LlmProviderId, string> = {
+  'lovable': 'LOVABLE',
+  'openai-compatible': 'OPENAI_COMPATIBLE',
+  'mock': 'MOCK',
+};
+
+const envNumber = (name: string, fallback: number, min: number, max: number): number => {
+  const value = parseFloat(Deno.env.get(name) ?? '');
+  return Number.isFinite(value) && value >= min && value <= max ? value : fallback;
+};
+
+const isProviderId = (value: string): value is LlmProviderId => value in DEFAULTS;
+
+const providerId = (variable: string, value: string): LlmProviderId => {
+  const id = value.trim().toLowerCase();
+  if (!isProviderId(id)) {
+    throw new Error(`Unknown ${variable} "${id}"; expected one of: ${Object.keys(DEFAULTS).join(', ')}`);
+  }
+  return id;
+};
+
+const buildProvider = (
+  id: LlmProviderId,
+  mockReply: (messages: ChatMessage[]) => string,
+  model?: string,
+): LlmProvider => {
+  const prefix = PREFIXES[id];
+  const defaults = DEFAULTS[id];
+  const settings: LlmSettings = {
+    model: model || Deno.env.get(`${prefix}_MODEL`)?.trim() || defaults.model,
+    temperature: envNumber(`${prefix}_TEMPERATURE`, defaults.temperature, 0, 2),
+    maxTokens: Math.round(envNumber(`${prefix}_MAX_TOKENS`, defaults.maxTokens, 1, 1_000_000)),
+  };
+  const timeoutMs = envNumber(`${prefix}_TIMEOUT_MS`, defaults.timeoutMs, 1, 3_600_000);
+
+  if (id === 'mock') {
+    const fixed = Deno.env.get('MOCK_LLM_REPLY');
+    return createMockProvider(settings, fixed ? () => fixed : mockReply);
+  }
+  if (id === 'lovable') {
+    return createOpenAiCompatibleProvider({
+      id,
+      baseUrl: LOVABLE_GATEWAY_URL,
+      apiKey: Deno.env.get('LOVABLE_API_KEY'),
+      timeoutMs,
+      settings,
+    });
+  }
+
+  const baseUrl = Deno.env.get('OPENAI_COMPATIBLE_BASE_URL')?.trim();
+  if (!baseUrl) throw new Error('OPENAI_COMPATIBLE_BASE_URL is required for the openai-compatible provider');
+  if (!settings.model) throw new Error('OPENAI_COMPATIBLE_MODEL is required for the openai-compatible provider');
+  return createOpenAiCompatibleProvider({
+    id,
+    baseUrl,
+    apiKey: Deno.env.get('OPENAI_COMPATIBLE_API_KEY'),
+    timeoutMs,
+    settings,
+  });
+};
+
+// The primary provider, then its fallback model, then the fallback provider.
+export const llmClientFromEnv = (
+  // Reply of the mock provider when MOCK_LLM_REPLY is not set.
+  mockReply: (messages: ChatMessage[]) => string,
+): ResilientClient => {
+  const primaryId = providerId('LLM_PROVIDER', Deno.env.get('LLM_PROVIDER') ?? 'lovable');
+  const primary = buildProvider(primaryId, mockReply);
+  const providers = [primary];
+
+  const fallbackModel = Deno.env.get('LLM_FALLBACK_MODEL')?.trim();
+  if (fallbackModel && fallbackModel !== primary.settings.model) {
+    providers.push(buildProvider(primaryId, mockReply, fallbackModel));
+  }
+  const fallbackProvider = Deno.env.get('LLM_FALLBACK_PROVIDER');
+  if (fallbackProvider?.trim()) {
+    const id = providerId('LLM_FALLBACK_PROVIDER', fallbackProvider);
+    if (id !== primaryId) providers.push(buildProvider(id, mockReply));
+  }
+
+  return createResilientClient(providers, {
+    ...DEFAULT_RETRY_OPTIONS,
+    budgetMs: envNumber('LLM_RETRY_BUDGET_MS', DEFAULT_RETRY_OPTIONS.budgetMs, 0, 600_000),
+  });
+};
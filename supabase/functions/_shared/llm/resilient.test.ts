@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { createResilientClient, type RetryOptions } from './resilient.ts';
+import type { ChatResult, LlmProvider } from './types.ts';
+
+// Millisecond waits so the tests do not sleep through real backoff.
+const FAST: RetryOptions = { budgetMs: 1_000, maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 4 };
+
+const MESSAGES = [{ role: 'user' as const, content: 'Hello' }];
+
+// Answers with the given results in turn, then keeps repeating the last one.
+const scriptedProvider = (id: string, results: ChatResult[]) => {
+  let calls = 0;
+  const provider: LlmProvider = {
+    id,
+    settings: { model: `${id}-model`, temperature: 0.7, maxTokens: 1000 },
+    chat: () => Promise.resolve(results[Math.min(calls++, results.length - 1)]),
+  };
+  return { provider, calls: () => calls };
+};
+
+const ok = (model: string): ChatResult => ({ ok: true, content: 'Hi', model });
+const failure = (status: number, retryAfterMs?: number): ChatResult => ({
+  ok: false,
+  status,
+  error: `HTTP ${status}`,
+  ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+});
+
+Deno.test('resilient client: retries rate limits and outages', async () => {
+  const primary = scriptedProvider('primary', [failure(429), failure(503), ok('primary-model')]);
+  const result = await createResilientClient([primary.provider], FAST).chat(MESSAGES);
+
+  assert.deepEqual(result, {
+    ok: true,
+    content: 'Hi',
+    model: 'primary-model',
+    usage: { provider: 'primary', model: 'primary-model', attempts: 3, fallback: false },
+  });
+});
+
+Deno.test('resilient client: falls back without retrying permanent errors', async () => {
+  const primary = scriptedProvider('primary', [failure(401)]);
+  const fallback = scriptedProvider('fallback', [ok('fallback-model')]);
+  const result = await createResilientClient([primary.provider, fallback.provider], FAST).chat(MESSAGES);
+
+  assert.equal(primary.calls(), 1);
+  assert.deepEqual(result.ok && result.usage, {
+    provider: 'fallback',
+    model: 'fallback-model',
+    attempts: 2,
+    fallback: true,
+  });
+});
+
+Deno.test('resilient client: stops retrying when Retry-After exceeds the budget', async () => {
+  const primary = scriptedProvider('primary', [failure(429, 60_000)]);
+  const fallback = scriptedProvider('fallback', [failure(503)]);
+  const result = await createResilientClient([primary.provider, fallback.provider], FAST).chat(MESSAGES);
+
+  // The fallback is still tried once, and its error is the one reported.
+  assert.equal(primary.calls(), 1);
+  assert.equal(fallback.calls(), 3);
+  assert.deepEqual(result, { ok: false, status: 503, error: 'HTTP 503' });
+});
+
+Deno.test('resilient client: later calls start with the provider that last answered', async () => {
+  const primary = scriptedProvider('primary', [failure(500)]);
+  const fallback = scriptedProvider('fallback', [ok('fallback-model')]);
+  const client = createResilientClient([primary.provider, fallback.provider], FAST);
+
+  await client.chat(MESSAGES);
+  const second = await client.chat(MESSAGES);
+
+  assert.equal(primary.calls(), 3);
+  assert.deepEqual(second.ok && second.usage, {
+    provider: 'fallback',
+    model: 'fallback-model',
+    attempts: 1,
+    fallback: true,
+  });
+});
+
+Deno.test('resilient client: requires a provider', () => {
+  assert.throws(() => createResilientClient([]), /At least one LLM provider is required/);
+});
@@ -0,0 +1,83 @@
+// Wraps the configured providers so a rate limit or outage is retried, then
+// handed to the next provider, before it reaches the user. Retries wait
+// for the provider's Retry-After when given, else a jittered exponential
+// backoff, and all of it fits within one time budget per call.
+import type { ChatMessage, ChatOptions, ChatResult, LlmProvider, ModelUsage } from './types.ts';
+
+export interface RetryOptions {
+  // Total time one call may spend across attempts and waits.
+  budgetMs: number;
+  // Attempts per provider before falling back to the next one.
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  budgetMs: 45_000,
+  maxAttempts: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 10_000,
+};
+
+export type ResilientResult =
+  | (Extract<ChatResult, { ok: true }> & { usage: ModelUsage })
+  | Extract<ChatResult, { ok: false }>;
+
+export interface ResilientClient {
+  primary: LlmProvider;
+  chat: (messages: ChatMessage[], options?: ChatOptions) => Promise<ResilientResult>;
+}
+
+// Rate limits, timeouts, server errors and dropped connections may pass;
+// anything else (bad key, no credits, unknown model) will not on retry.
+const isRetryable = (status: number) => status === 0 || status === 408 || status === 429 || status >= 500;
+
+const backoff = (attempt: number, options: RetryOptions) => {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const createResilientClient = (
+  providers: LlmProvider[],
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+): ResilientClient => {
+  if (!providers.length) throw new Error('At least one LLM provider is required');
+  // Later calls in the same analysis (repairs) start with the provider that
+  // last answered, so one reply is not repaired by a different model.
+  let start = 0;
+
+  const chat = async (messages: ChatMessage[], chatOptions: ChatOptions = {}): Promise<ResilientResult> => {
+    const deadline = Date.now() + options.budgetMs;
+    let attempts = 0;
+    let last: Extract<ChatResult, { ok: false }> = { ok: false, status: 0, error: 'No provider was tried' };
+
+    for (let idx = start; idx < providers.length; idx++) {
+      const provider = providers[idx];
+      for (let attempt = 0; attempt < options.maxAttempts; attempt++) {
+        attempts++;
+        const result = await provider.chat(messages, chatOptions);
+        if (result.ok) {
+          start = idx;
+          return { ...result, usage: { provider: provider.id, model: result.model, attempts, fallback: idx > 0 } };
+        }
+        last = result;
+        console.error('LLM request failed:', provider.id, provider.settings.model, result.status, result.error);
+        if (!isRetryable(result.status) || attempt === options.maxAttempts - 1) break;
+
+        const wait = result.retryAfterMs ?? backoff(attempt, options);
+        if (Date.now() + wait >= deadline) break;
+        await sleep(wait);
+      }
+      // A fallback is tried at least once even when the budget is spent.
+      if (idx < providers.length - 1) {
+        console.log('Falling back to', providers[idx + 1].id, providers[idx + 1].settings.model);
+      }
+    }
+    return last;
+  };
+
+  return { primary: providers[0], chat };
+};
@@ -0,0 +1,41 @@
+// Chat-completion providers the analysis can run on. Every provider answers
+// the same OpenAI-style chat request so prompts and validation stay shared.
+// This module has no imports so the frontend can share `ModelUsage`.
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+// Per-call overrides of the provider's settings.
+export interface ChatOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+// `status` is the provider's HTTP status, or 0 when no response arrived.
+// `retryAfterMs` is the wait the provider asked for in Retry-After.
+export type ChatResult =
+  | { ok: true; content: string | null; model: string }
+  | { ok: false; status: number; error: string; retryAfterMs?: number };
+
+export interface LlmProvider {
+  id: string;
+  settings: LlmSettings;
+  chat: (messages: ChatMessage[], options?: ChatOptions) => Promise<ChatResult>;
+}
+
+// Which provider and model produced a reply, and how many requests it took.
+export interface ModelUsage {
+  provider: string;
+  model: string;
+  attempts: number;
+  // True when the reply came from a provider or model other than the first.
+  fallback: boolean;
+}
@@ -0,0 +1,68 @@
+// Verified store offers with live prices, persisted per product in the
+// `offers` table and as `price_snapshots` for the price history chart.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import type { StoreOffer } from './analysis-payload.ts';
+import type { ExtractedProduct } from './extraction/types.ts';
+import { knownStore } from './store-verification.ts';
+
+export const storeName = (url: string): string =>
+  knownStore(url)?.name ?? new URL(url).hostname.replace(/^(www|m)\./, '');
+
+// The analyzed page as an offer, so it is compared with the other stores.
+export const sourceOffer = (product: ExtractedProduct, canonicalUrl: string, fetchedAt: string): StoreOffer => ({
+  name: storeName(canonicalUrl),
+  url: canonicalUrl,
+  verification: 'verified',
+  verification_note: 'analyzed page',
+  page_price: product.price,
+  page_currency: product.currency,
+  in_stock: product.in_stock,
+  fetched_at: fetchedAt,
+  is_source: true,
+});
+
+// Upserts every verified offer and snapshots the prices of the other stores;
+// the analyzed page's own price is already snapshotted with source 'page'.
+export const recordOffers = async (
+  supabase: SupabaseClient,
+  productId: string,
+  runId: string | null,
+  offers: StoreOffer[],
+): Promise<void> => {
+  const verified = offers.filter((offer) => offer.verification === 'verified');
+  if (!verified.length) return;
+
+  const { error: offersError } = await supabase.from('offers').upsert(
+    verified.map((offer) => ({
+      product_id: productId,
+      run_id: runId,
+      store: offer.name,
+      url: offer.url,
+      price: offer.page_price ?? null,
+      currency: offer.page_currency ?? null,
+      in_stock: offer.in_stock ?? null,
+      is_source: offer.is_source ?? false,
+      fetched_at: offer.fetched_at ?? new Date().toISOString(),
+    })),
+    { onConflict: 'product_id,url' },
+  );
+  if (offersError) console.error('Failed to record offers:', offersError);
+
+  const snapshots = verified
+    .filter((offer) => !offer.is_source && typeof offer.page_price === 'number')
+    .map((offer) => ({
+      product_id: productId,
+      run_id: runId,
+      // Snapshots are keyed by host, matching the 'page' snapshots.
+      store: new URL(offer.url).hostname.replace(/^www\./, ''),
+      store_url: offer.url,
+      source: 'offer',
+      price: offer.page_price,
+      currency: offer.page_currency ?? null,
+      in_stock: offer.in_stock ?? null,
+      captured_at: offer.fetched_at,
+    }));
+  if (!snapshots.length) return;
+  const { error: snapshotError } = await supabase.from('price_snapshots').insert(snapshots);
+  if (snapshotError) console.error('Failed to record offer price snapshots:', snapshotError);
+};
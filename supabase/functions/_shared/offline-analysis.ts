@@ -0,0 +1,36 @@
+// Analysis reply for the mock provider, built only from what the page showed
+// so offline runs exercise validation, citations and scoring end to end.
+import type { AiClaim, AiOutput } from './ai-output.ts';
+import type { CategoryNode } from './category-rubric.ts';
+import type { EvidenceIndex } from './claim-evidence.ts';
+
+export interface OfflineInputs {
+  title: string;
+  rating: number | null;
+  category: CategoryNode;
+  evidence: EvidenceIndex;
+}
+
+export const offlineAnalysisReply = ({ title, rating, category, evidence }: OfflineInputs): string => {
+  const score = rating !== null ? Math.round((rating / 5) * 100) : 50;
+  const refs = [...evidence.values()];
+  const facts = refs.filter((ref) => ref.kind === 'spec' || ref.kind === 'description');
+  const reviews = refs.filter((ref) => ref.kind === 'review');
+  const claim = (text: string, evidence: string[]): AiClaim => ({ text, importance: 'medium', evidence });
+
+  const pros = facts.slice(0, 6).map((ref) => claim(ref.text, [ref.id]));
+  const reply: AiOutput = {
+    category: category.name,
+    category_id: category.id,
+    score,
+    category_scores: category.dimensions.map((dimension) => ({ key: dimension.key, score })),
+    short_review: `Offline analysis of ${title}, based only on the product page.`,
+    pros: pros.length ? pros : [claim(`Listed as ${title}`, ['P1'])],
+    cons: [claim('Not analysed by a language model', [])],
+    sentiment_score: rating !== null ? Math.round(((rating - 3) / 2) * 100) / 100 : 0,
+    stores: [],
+    reviews_summary: reviews.length ? `${reviews.length} customer reviews were listed.` : null,
+    sources_count: null,
+  };
+  return JSON.stringify(reply);
+};
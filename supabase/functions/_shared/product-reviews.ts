@@ -0,0 +1,63 @@
+// Customer reviews collected per product in `product_reviews`, reused by
+// later analyses until the product's review listing is due another crawl.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { reviewKey } from './extraction/reviews.ts';
+import type { ExtractedReview, FieldSource } from './extraction/types.ts';
+
+// How long a crawl of the review listing is reused before it is repeated.
+const RECRAWL_AFTER_MS = 7 * 24 * 60 * 60 * 1000;
+// Most stored reviews loaded into an analysis, newest first.
+const MAX_STORED_REVIEWS = 300;
+
+export const crawlDue = (crawledAt: string | null): boolean =>
+  !crawledAt || Date.now() - Date.parse(crawledAt) > RECRAWL_AFTER_MS;
+
+export const loadStoredReviews = async (
+  supabase: SupabaseClient,
+  productId: string,
+): Promise<ExtractedReview[]> => {
+  const { data, error } = await supabase
+    .from('product_reviews')
+    .select('author, rating, title, body, review_date, verified_purchase, source')
+    .eq('product_id', productId)
+    .order('review_date', { ascending: false, nullsFirst: false })
+    .limit(MAX_STORED_REVIEWS);
+  if (error) {
+    console.error('Failed to load stored reviews:', error);
+    return [];
+  }
+  return (data ?? []).map((row) => ({
+    author: row.author,
+    rating: row.rating !== null ? Number(row.rating) : null,
+    title: row.title,
+    body: row.body,
+    date: row.review_date,
+    verified_purchase: row.verified_purchase,
+    source: row.source as FieldSource,
+  }));
+};
+
+// Stores reviews not seen before; existing rows keep their first collection
+// time.
+export const recordReviews = async (
+  supabase: SupabaseClient,
+  productId: string,
+  reviews: ExtractedReview[],
+): Promise<void> => {
+  if (!reviews.length) return;
+  const { error } = await supabase.from('product_reviews').upsert(
+    reviews.map((review) => ({
+      product_id: productId,
+      review_key: reviewKey(review),
+      author: review.author,
+      rating: review.rating,
+      title: review.title,
+      body: review.body,
+      review_date: review.date,
+      verified_purchase: review.verified_purchase,
+      source: review.source,
+    })),
+    { onConflict: 'product_id,review_key', ignoreDuplicates: true },
+  );
+  if (error) console.error('Failed to record reviews:', error);
+};
@@ -0,0 +1,54 @@
+// Picks the page reviews the model summarises. Reviews are drawn in turn from
+// the positive, critical and middling ones so a product with hundreds of
+// five-star reviews still has its complaints heard.
+import type { ReviewSnippet } from './analysis-payload.ts';
+import type { ExtractedReview } from './extraction/types.ts';
+
+export const MAX_PROMPT_REVIEWS = 20;
+const MAX_BODY_CHARS = 600;
+
+// Longer, verified and more recent reviews are read first within a group.
+const informativeness = (review: ExtractedReview): number =>
+  Math.min(review.body.length, 400) / 400 +
+  (review.verified_purchase ? 0.5 : 0) +
+  (review.date ? Math.max(0, 1 - (Date.now() - Date.parse(review.date)) / (3 * 365 * 86_400_000)) * 0.25 : 0);
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text);
+
+export const sampleReviews = (reviews: ExtractedReview[], max = MAX_PROMPT_REVIEWS): ReviewSnippet[] => {
+  const byInformativeness = [...reviews].sort((a, b) => informativeness(b) - informativeness(a));
+  const groups = [
+    byInformativeness.filter((review) => review.rating !== null && review.rating >= 4),
+    byInformativeness.filter((review) => review.rating !== null && review.rating <= 2),
+    byInformativeness.filter((review) => review.rating === null || (review.rating > 2 && review.rating < 4)),
+  ];
+
+  const picked: ExtractedReview[] = [];
+  for (let round = 0; picked.length < max && groups.some((group) => group.length > round); round++) {
+    for (const group of groups) {
+      if (group[round] && picked.length < max) picked.push(group[round]);
+    }
+  }
+
+  return picked.map((review, idx) => ({
+    id: `R${idx + 1}`,
+    rating: review.rating,
+    title: review.title,
+    body: truncate(review.body, MAX_BODY_CHARS),
+    date: review.date,
+    verified_purchase: review.verified_purchase,
+  }));
+};
+
+// One line per review for the analysis prompt.
+export const describeReviews = (reviews: ReviewSnippet[]): string =>
+  reviews
+    .map((review) => {
+      const details = [
+        review.rating !== null ? `${review.rating}/5` : 'unrated',
+        review.date,
+        review.verified_purchase ? 'verified purchase' : null,
+      ].filter(Boolean).join(', ');
+      return `[${review.id}] (${details}) ${review.title ? `${review.title}: ` : ''}${review.body}`;
+    })
+    .join('\n');
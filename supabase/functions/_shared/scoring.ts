@@ -0,0 +1,140 @@
+// Deterministic overall score. Combines the rubric sub-scores with the
+// page's star rating and the review sentiment, and records how each part
+// contributed so the UI can explain the number.
+import type { CategoryScore } from './analysis-payload.ts';
+
+export const SCORING_VERSION = 'score-v1';
+
+export type ScoreComponentKey = 'rubric' | 'rating' | 'sentiment' | 'model';
+
+export interface ScoreComponent {
+  key: ScoreComponentKey;
+  label: string;
+  // Component value on the 0-100 scale.
+  value: number;
+  // Share of the overall score after missing components are redistributed.
+  weight: number;
+  // value × weight, rounded; contributions sum to the score (± rounding).
+  contribution: number;
+  detail: string;
+}
+
+export interface ScoreExplanation {
+  version: string;
+  score: number;
+  components: ScoreComponent[];
+  // The model's own overall score. Only counts towards `score`, as the
+  // `model` component, when there are no category scores.
+  model_score: number | null;
+  notes: string[];
+}
+
+export interface ScoreInputs {
+  category_scores: CategoryScore[];
+  rating: number | null;
+  review_count: number | null;
+  sentiment_score: number | null;
+  model_score: number | null;
+}
+
+const BASE_WEIGHTS: Record<ScoreComponentKey, number> = {
+  rubric: 0.6,
+  rating: 0.25,
+  sentiment: 0.15,
+  // Only used when the rubric produced no sub-scores.
+  model: 0.6,
+};
+
+// Ratings are shrunk toward PRIOR_RATING as if it had PRIOR_REVIEWS votes,
+// so a 5.0 from three reviews does not outrank a 4.6 from three thousand.
+const PRIOR_RATING = 3.5;
+const PRIOR_REVIEWS = 25;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const adjustedRating = (rating: number, reviewCount: number | null): number => {
+  // An unknown count is treated as equal weight to the prior.
+  const n = reviewCount ?? PRIOR_REVIEWS;
+  return (PRIOR_RATING * PRIOR_REVIEWS + rating * n) / (PRIOR_REVIEWS + n);
+};
+
+export const computeScore = (inputs: ScoreInputs): ScoreExplanation => {
+  const notes: string[] = [];
+  const parts: Omit<ScoreComponent, 'weight' | 'contribution'>[] = [];
+
+  const rubric = inputs.category_scores.filter((s) => Number.isFinite(s.score));
+  if (rubric.length) {
+    const totalWeight = rubric.reduce((sum, s) => sum + (s.weight ?? 1), 0);
+    const value = rubric.reduce((sum, s) => sum + s.score * (s.weight ?? 1), 0) / totalWeight;
+    parts.push({
+      key: 'rubric',
+      label: 'Category scores',
+      value,
+      detail: rubric
+        .map((s) => `${s.label} ${s.score} × ${Math.round(((s.weight ?? 1) / totalWeight) * 100)}%`)
+        .join(', '),
+    });
+  } else if (inputs.model_score !== null && Number.isFinite(inputs.model_score)) {
+    notes.push('No category scores were available; the model\'s overall score stands in for them.');
+    parts.push({
+      key: 'model',
+      label: 'Model score',
+      value: clamp(inputs.model_score, 0, 100),
+      detail: 'Overall score suggested by the model',
+    });
+  }
+
+  if (inputs.rating !== null && Number.isFinite(inputs.rating)) {
+    const rating = clamp(inputs.rating, 0, 5);
+    const adjusted = adjustedRating(rating, inputs.review_count);
+    if (inputs.review_count === null) {
+      notes.push('Review count unknown; the star rating was blended evenly with a neutral prior.');
+    } else if (inputs.review_count < PRIOR_REVIEWS) {
+      notes.push(`Only ${inputs.review_count} reviews; the star rating was pulled toward ${PRIOR_RATING}.`);
+    }
+    parts.push({
+      key: 'rating',
+      label: 'Star rating',
+      value: (adjusted / 5) * 100,
+      detail: `${rating.toFixed(1)}/5 from ${inputs.review_count ?? 'an unknown number of'} reviews, adjusted to ${adjusted.toFixed(2)}/5`,
+    });
+  } else {
+    notes.push('No star rating was found on the page.');
+  }
+
+  if (inputs.sentiment_score !== null && Number.isFinite(inputs.sentiment_score)) {
+    const sentiment = clamp(inputs.sentiment_score, -1, 1);
+    parts.push({
+      key: 'sentiment',
+      label: 'Review sentiment',
+      value: ((sentiment + 1) / 2) * 100,
+      detail: `Sentiment ${sentiment.toFixed(2)} on a -1 to 1 scale`,
+    });
+  }
+
+  const totalWeight = parts.reduce((sum, part) => sum + BASE_WEIGHTS[part.key], 0);
+  const components: ScoreComponent[] = parts.map((part) => {
+    const weight = totalWeight ? BASE_WEIGHTS[part.key] / totalWeight : 0;
+    return {
+      ...part,
+      value: round1(part.value),
+      weight: Math.round(weight * 1000) / 1000,
+      contribution: round1(part.value * weight),
+    };
+  });
+  const score = clamp(
+    Math.round(parts.reduce((sum, part) => sum + part.value * (BASE_WEIGHTS[part.key] / (totalWeight || 1)), 0)),
+    0,
+    100,
+  );
+
+  return {
+    version: SCORING_VERSION,
+    score,
+    components,
+    model_score: inputs.model_score !== null && Number.isFinite(inputs.model_score) ? Math.round(inputs.model_score) : null,
+    notes,
+  };
+};
@@ -0,0 +1,37 @@
+import assert from 'node:assert/strict';
+import { knownStore, verifyStoreOffers } from './store-verification.ts';
+
+const PRODUCT = { title: 'Sony WH-1000XM5 Wireless Headphones', canonical_url: 'https://www.example.com/p/1' };
+
+Deno.test('store verification: allows every Amazon storefront the extractor reads', () => {
+  for (const host of ['amazon.nl', 'amazon.se', 'amazon.pl', 'amazon.com.tr', 'amazon.in']) {
+    assert.equal(knownStore(`https://www.${host}/dp/B09XS7JWHH`)?.name, 'Amazon');
+  }
+  assert.equal(knownStore('https://www.amazon.example/dp/B09XS7JWHH'), null);
+});
+
+Deno.test('store verification: keeps an offer unverified when its page cannot be read', async () => {
+  const original = globalThis.fetch;
+  // The body stream fails partway, as it does when the timeout fires mid-read.
+  globalThis.fetch = () =>
+    Promise.resolve(
+      new Response(
+        new ReadableStream({
+          pull: (controller) => controller.error(new DOMException('Signal timed out.', 'TimeoutError')),
+        }),
+        { status: 200 },
+      ),
+    );
+  try {
+    const offers = await verifyStoreOffers(
+      [{ name: 'Amazon', url: 'https://www.amazon.nl/dp/B09XS7JWHH' }],
+      PRODUCT,
+    );
+
+    assert.equal(offers.length, 1);
+    assert.equal(offers[0].verification, 'unverified');
+    assert.equal(offers[0].verification_note, 'store page could not be read');
+  } finally {
+    globalThis.fetch = original;
+  }
+});
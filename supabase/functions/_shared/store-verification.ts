@@ -0,0 +1,203 @@
+// Checks the model's suggested store offers against the stores' own pages.
+// Offers on unknown domains or redirecting off them, dead links, non-product
+// pages or pages for a different product are dropped; offers that could not
+// be checked (bot walls, timeouts) are kept but marked unverified.
+import type { StoreOffer } from './analysis-payload.ts';
+import { normalizeUrl } from './canonical-url.ts';
+import { extractProduct } from './extraction/extract.ts';
+import { AMAZON_HOST } from './extraction/extractors/amazon.ts';
+import type { ExtractedProduct } from './extraction/types.ts';
+
+interface KnownStore {
+  name: string;
+  host: RegExp;
+}
+
+// Retailers whose product pages we are willing to link to.
+export const STORE_ALLOWLIST: KnownStore[] = [
+  { name: 'Amazon', host: AMAZON_HOST },
+  { name: 'Flipkart', host: /(^|\.)flipkart\.com$/ },
+  { name: 'Myntra', host: /(^|\.)myntra\.com$/ },
+  { name: 'Ajio', host: /(^|\.)ajio\.com$/ },
+  { name: 'Nykaa', host: /(^|\.)nykaa\.com$/ },
+  { name: 'Croma', host: /(^|\.)croma\.com$/ },
+  { name: 'Reliance Digital', host: /(^|\.)reliancedigital\.in$/ },
+  { name: 'Tata CLiQ', host: /(^|\.)tatacliq\.com$/ },
+  { name: 'Walmart', host: /(^|\.)walmart\.(com|ca)$/ },
+  { name: 'Best Buy', host: /(^|\.)bestbuy\.(com|ca)$/ },
+  { name: 'Target', host: /(^|\.)target\.com$/ },
+  { name: 'eBay', host: /(^|\.)ebay\.(com|co\.uk|de|in|ca|com\.au)$/ },
+  { name: 'Newegg', host: /(^|\.)newegg\.(com|ca)$/ },
+  { name: 'B&H Photo', host: /(^|\.)bhphotovideo\.com$/ },
+  { name: 'Currys', host: /(^|\.)currys\.co\.uk$/ },
+  { name: 'Argos', host: /(^|\.)argos\.co\.uk$/ },
+];
+
+const VERIFY_TIMEOUT_MS = 6000;
+const MAX_OFFERS = 6;
+
+// Title similarity at or above VERIFIED is the same product; below DIFFERENT
+// the page is for something else.
+const VERIFIED_SIMILARITY = 0.5;
+const DIFFERENT_SIMILARITY = 0.25;
+
+// Statuses retailers use for bot walls; the page may well exist.
+const BLOCKED_STATUSES = [401, 403, 429, 503, 529];
+
+const STOP_WORDS = new Set([
+  'and', 'the', 'for', 'with', 'from', 'buy', 'online', 'price', 'best', 'new', 'in', 'of', 'to', 'at', 'on', 'by',
+]);
+
+const titleTokens = (title: string): string[] =>
+  title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .split(' ')
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+
+// Model numbers such as "wh1000xm5" or "a52s" distinguish otherwise similar
+// titles, so they weigh more than words.
+const isModelToken = (token: string) => token.length >= 3 && /\d/.test(token) && /\p{L}/u.test(token);
+
+// Overlap coefficient of the two titles' tokens (retail titles differ a lot
+// in length). When the source names a model the candidate lacks, the score is
+// halved, or quartered if the candidate names a different model instead.
+export const titleSimilarity = (source: string, candidate: string): number => {
+  const a = new Set(titleTokens(source));
+  const b = new Set(titleTokens(candidate));
+  if (!a.size || !b.size) return 0;
+  const shared = [...a].filter((token) => b.has(token)).length;
+  let similarity = shared / Math.min(a.size, b.size);
+  const models = [...a].filter(isModelToken);
+  if (models.length && !models.some((token) => b.has(token))) {
+    similarity /= [...b].some(isModelToken) ? 4 : 2;
+  }
+  return Math.round(similarity * 100) / 100;
+};
+
+export const knownStore = (url: string): KnownStore | null => {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase();
+    return STORE_ALLOWLIST.find((store) => store.host.test(hostname)) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+const looksLikeProductPage = (product: ExtractedProduct): boolean =>
+  product.price !== null ||
+  product.extractor !== 'generic' ||
+  ['api', 'site', 'json-ld', 'microdata'].includes(product.sources.title ?? '');
+
+type Check = { keep: false; reason: string } | { keep: true; offer: StoreOffer };
+
+// `productTitle` is null when none was extracted from the analyzed page;
+// store pages are then only checked to be live product pages.
+const checkOffer = async (offer: StoreOffer, productTitle: string | null): Promise<Check> => {
+  const store = knownStore(offer.url);
+  if (!store) return { keep: false, reason: 'domain not on the store allowlist' };
+
+  const url = normalizeUrl(offer.url).canonical;
+  const unverified = (note: string): Check => ({
+    keep: true,
+    offer: { ...offer, name: store.name, url, verification: 'unverified', verification_note: note },
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      },
+      signal: AbortSignal.timeout(VERIFY_TIMEOUT_MS),
+    });
+  } catch (e) {
+    console.error('Store link check failed:', url, e);
+    return unverified('store page could not be reached');
+  }
+
+  // A link on an allowed store can redirect anywhere; the page that was
+  // actually served must be on the allowlist too.
+  const finalUrl = response.url || url;
+  const finalStore = knownStore(finalUrl);
+  if (!finalStore) {
+    await response.body?.cancel();
+    return { keep: false, reason: `redirected off the store allowlist (${new URL(finalUrl).hostname})` };
+  }
+
+  if (BLOCKED_STATUSES.includes(response.status)) {
+    await response.body?.cancel();
+    return unverified(`store refused the check (HTTP ${response.status})`);
+  }
+  if (!response.ok) {
+    await response.body?.cancel();
+    return { keep: false, reason: `HTTP ${response.status}` };
+  }
+
+  // The timeout also covers reading the body, which can abort midway.
+  let page: ExtractedProduct;
+  try {
+    page = await extractProduct(await response.text(), finalUrl);
+  } catch (e) {
+    console.error('Store page read failed:', finalUrl, e);
+    return unverified('store page could not be read');
+  }
+  if (!looksLikeProductPage(page)) return { keep: false, reason: 'not a product page' };
+  if (productTitle === null) return unverified('no product title to compare the page with');
+
+  const similarity = page.title ? titleSimilarity(productTitle, page.title) : 0;
+  if (similarity < DIFFERENT_SIMILARITY) {
+    return { keep: false, reason: `page is for a different product ("${page.title ?? 'untitled'}")` };
+  }
+  if (similarity < VERIFIED_SIMILARITY) return unverified(`title only partly matches (${similarity})`);
+
+  return {
+    keep: true,
+    offer: {
+      ...offer,
+      name: finalStore.name,
+      url: normalizeUrl(finalUrl).canonical,
+      verification: 'verified',
+      verification_note: `title match ${similarity}`,
+      page_price: page.price,
+      page_currency: page.currency,
+      in_stock: page.in_stock,
+      fetched_at: new Date().toISOString(),
+    },
+  };
+};
+
+// Verifies offers in parallel and returns the kept ones in their original
+// order, verified first. Offers pointing back at the analyzed page are
+// dropped as duplicates.
+export const verifyStoreOffers = async (
+  offers: StoreOffer[],
+  product: { title: string | null; canonical_url: string },
+): Promise<StoreOffer[]> => {
+  const seen = new Set<string>([product.canonical_url]);
+  const candidates = offers
+    .filter((offer) => {
+      try {
+        const key = normalizeUrl(offer.url).canonical;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      } catch {
+        return false;
+      }
+    })
+    .slice(0, MAX_OFFERS);
+
+  const checks = await Promise.all(candidates.map((offer) => checkOffer(offer, product.title)));
+  const kept: StoreOffer[] = [];
+  checks.forEach((check, idx) => {
+    if (check.keep) kept.push(check.offer);
+    else console.log('Dropped store offer:', candidates[idx].url, '-', check.reason);
+  });
+  return [
+    ...kept.filter((offer) => offer.verification === 'verified'),
+    ...kept.filter((offer) => offer.verification !== 'verified'),
+  ];
+};
@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict';
+import { parseAiReply, validateAiOutput } from './ai-output.ts';
+import { createResilientClient } from './llm/resilient.ts';
+import type { ChatMessage, ChatResult, LlmProvider } from './llm/types.ts';
+import { requestValidReply } from './validated-reply.ts';
+
+const VALID_REPLY = {
+  category: 'Headphones',
+  category_id: 'electronics.audio',
+  score: 82,
+  category_scores: [
+    { key: 'sound', score: 88 },
+    { key: 'comfort', score: 76 },
+  ],
+  short_review: 'Excellent noise cancelling with a comfortable fit.',
+  pros: [{ text: 'Strong noise cancelling', importance: 'high', evidence: ['r1', 'S2'] }],
+  cons: [{ text: 'Case is bulky', importance: 'low' }],
+  sentiment_score: 0.6,
+  stores: [{ name: 'Amazon', url: 'https://www.amazon.in/dp/B09XS7JWHH', price: '₹29,990' }],
+  reviews_summary: '  Buyers praise the sound.  ',
+  sources_count: 12,
+};
+
+const OPTIONS = { categoryIds: ['electronics.audio'], dimensionKeys: ['sound', 'comfort'] };
+
+// Replies with the given contents in turn and records each conversation.
+const scriptedProvider = (replies: ChatResult[]) => {
+  const calls: { messages: ChatMessage[]; temperature?: number }[] = [];
+  const provider: LlmProvider = {
+    id: 'scripted',
+    settings: { model: 'test-model', temperature: 0.7, maxTokens: 1000 },
+    chat: (messages, options = {}) => {
+      calls.push({ messages: [...messages], temperature: options.temperature });
+      return Promise.resolve(replies[calls.length - 1]);
+    },
+  };
+  return { provider, calls };
+};
+
+const reply = (content: string): ChatResult => ({ ok: true, content, model: 'test-model' });
+
+const validate = (content: unknown) => {
+  const parsed = parseAiReply(content);
+  return parsed.ok ? validateAiOutput(parsed.value, OPTIONS) : parsed;
+};
+
+const MESSAGES: ChatMessage[] = [
+  { role: 'system', content: 'Analyse the product.' },
+  { role: 'user', content: 'Product page text' },
+];
+
+Deno.test('ai output: accepts a fenced reply and normalizes it', () => {
+  const parsed = parseAiReply('```json\n' + JSON.stringify(VALID_REPLY) + '\n```');
+  assert.equal(parsed.ok, true);
+
+  const validation = validateAiOutput(parsed.ok ? parsed.value : null, OPTIONS);
+  assert.equal(validation.ok, true);
+  if (!validation.ok) return;
+  assert.deepEqual(validation.value.pros, [{ text: 'Strong noise cancelling', importance: 'high', evidence: ['R1', 'S2'] }]);
+  assert.deepEqual(validation.value.cons, [{ text: 'Case is bulky', importance: 'low', evidence: [] }]);
+  assert.equal(validation.value.reviews_summary, 'Buyers praise the sound.');
+});
+
+Deno.test('ai output: lists every schema violation', () => {
+  const validation = validateAiOutput(
+    {
+      ...VALID_REPLY,
+      category_id: 'toys',
+      score: 140,
+      category_scores: [{ key: 'sound', score: 88 }, { key: 'battery', score: 70 }],
+      cons: [],
+      stores: [{ name: 'Shop', url: 'ftp://shop.example.com' }],
+    },
+    OPTIONS,
+  );
+
+  assert.deepEqual(validation, {
+    ok: false,
+    errors: [
+      'category_id must be one of: electronics.audio',
+      'score must be a number from 0 to 100',
+      'category_scores is missing keys: comfort',
+      'category_scores has keys outside the chosen category: battery',
+      'cons must have 1-2 items, got 0',
+      'stores[0] must have a name and an http(s) url',
+    ],
+  });
+  assert.deepEqual(parseAiReply('  '), { ok: false, errors: ['Reply was empty'] });
+  assert.equal(parseAiReply('{"score": 8').ok, false);
+});
+
+Deno.test('validated reply: accepts a valid first reply', async () => {
+  const { provider, calls } = scriptedProvider([reply(JSON.stringify(VALID_REPLY))]);
+  const result = await requestValidReply(createResilientClient([provider]), MESSAGES, validate, () => 'Fix it');
+
+  assert.equal(result.ok && result.status, 'ok');
+  assert.equal(calls.length, 1);
+});
+
+Deno.test('validated reply: re-prompts with the validation errors', async () => {
+  const { provider, calls } = scriptedProvider([reply('not json'), reply(JSON.stringify(VALID_REPLY))]);
+  const result = await requestValidReply(
+    createResilientClient([provider]),
+    MESSAGES,
+    validate,
+    (errors) => `Fix: ${errors.length} error(s)`,
+  );
+
+  assert.equal(result.ok && result.status, 'repaired');
+  assert.equal(result.ok && result.validation.ok, true);
+  assert.equal(calls.length, 2);
+  assert.deepEqual(calls[1].messages.slice(2), [
+    { role: 'assistant', content: 'not json' },
+    { role: 'user', content: 'Fix: 1 error(s)' },
+  ]);
+  assert.equal(calls[1].temperature, 0.2);
+  // The caller's conversation is left as it was.
+  assert.equal(MESSAGES.length, 2);
+});
+
+Deno.test('validated reply: gives up after one repair', async () => {
+  const { provider, calls } = scriptedProvider([reply('not json'), reply('{}')]);
+  const result = await requestValidReply(createResilientClient([provider]), MESSAGES, validate, () => 'Fix it');
+
+  assert.equal(calls.length, 2);
+  assert.equal(result.ok && result.status, 'failed');
+  assert.equal(result.ok && result.validation.ok, false);
+});
+
+Deno.test('validated reply: passes provider errors through', async () => {
+  const { provider } = scriptedProvider([{ ok: false, status: 402, error: 'Payment required' }]);
+  const result = await requestValidReply(createResilientClient([provider]), MESSAGES, validate, () => 'Fix it');
+
+  assert.deepEqual(result, { ok: false, status: 402, error: 'Payment required' });
+});
@@ -0,0 +1,47 @@
+// Asks the model for an analysis reply and, while it fails schema validation,
+// re-prompts with the validation errors.
+import type { AiValidation, AnalysisStatus } from './ai-output.ts';
+import type { ResilientClient, ResilientResult } from './llm/resilient.ts';
+import type { ChatMessage, ModelUsage } from './llm/types.ts';
+
+// Corrective re-prompts after a reply fails schema validation.
+const MAX_REPAIR_ATTEMPTS = 1;
+// Repairs should fix the format, not rewrite the analysis.
+const REPAIR_TEMPERATURE = 0.2;
+
+// `ok` is false only when the provider gave no reply; a reply that never
+// passed validation is `ok` with status 'failed' and the last errors.
+export type ValidatedReply =
+  | { ok: true; validation: AiValidation; status: AnalysisStatus; usage: ModelUsage }
+  | Extract<ResilientResult, { ok: false }>;
+
+export const requestValidReply = async (
+  llm: ResilientClient,
+  messages: ChatMessage[],
+  validate: (content: unknown) => AiValidation,
+  repair: (errors: string[]) => string,
+): Promise<ValidatedReply> => {
+  const conversation = [...messages];
+  // The first reply plus up to MAX_REPAIR_ATTEMPTS corrections, each
+  // prompted with the previous reply's validation errors.
+  for (let attempt = 0; ; attempt++) {
+    const reply = await llm.chat(
+      conversation,
+      attempt === 0 ? {} : { temperature: Math.min(REPAIR_TEMPERATURE, llm.primary.settings.temperature) },
+    );
+    if (!reply.ok) return reply;
+
+    console.log('AI response received from', reply.usage.provider, reply.usage.model, 'attempt', attempt + 1);
+    const validation = validate(reply.content);
+    if (validation.ok) {
+      return { ok: true, validation, status: attempt > 0 ? 'repaired' : 'ok', usage: reply.usage };
+    }
+
+    console.error('AI reply failed validation:', validation.errors);
+    if (attempt === MAX_REPAIR_ATTEMPTS) return { ok: true, validation, status: 'failed', usage: reply.usage };
+    conversation.push(
+      { role: 'assistant', content: reply.content ?? '' },
+      { role: 'user', content: repair(validation.errors) },
+    );
+  }
+};
@@ -0,0 +1,102 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { type CanonicalUrl, canonicalizeUrl } from '../_shared/canonical-url.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// Lists the analysis history of one product, newest first, together with its
+// most recent price snapshots, oldest first. The product is identified by `product_id` or by any URL
+// that canonicalizes to it; `since` (ISO timestamp) narrows the range.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { product_id, url, limit, before, since } = await req.json();
+
+    if (!product_id && (!url || typeof url !== 'string')) {
+      return new Response(
+        JSON.stringify({ error: 'product_id or url is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let productQuery = supabase
+      .from('product_inspections')
+      .select('id, canonical_url, product_key, title, domain, category');
+    if (product_id) {
+      productQuery = productQuery.eq('id', product_id);
+    } else {
+      let canonical: CanonicalUrl;
+      try {
+        canonical = await canonicalizeUrl(url);
+      } catch {
+        return new Response(
+          JSON.stringify({ error: 'Invalid URL format' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      productQuery = canonical.product_key
+        ? productQuery.or(`canonical_url.eq."${canonical.canonical}",product_key.eq."${canonical.product_key}"`)
+        : productQuery.eq('canonical_url', canonical.canonical);
+    }
+
+    const { data: product, error: productError } = await productQuery.limit(1).maybeSingle();
+    if (productError) throw productError;
+    if (!product) {
+      return new Response(
+        JSON.stringify({ error: 'Product has not been analyzed yet' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const pageSize = Math.min(MAX_LIMIT, Math.max(1, Number(limit) || DEFAULT_LIMIT));
+    let runsQuery = supabase
+      .from('analysis_runs')
+      .select(
+        'id, created_at, url, analyser_version, model, fetch_strategy, http_status, extractor, timings, ai_score, sentiment_score, price, currency, rating, category'
+      )
+      .eq('product_id', product.id)
+      .order('created_at', { ascending: false })
+      .limit(pageSize);
+    let pricesQuery = supabase
+      .from('price_snapshots')
+      .select('id, run_id, store, store_url, source, price, currency, in_stock, captured_at')
+      .eq('product_id', product.id)
+      // Newest first so the cap drops the oldest snapshots; reversed below.
+      .order('captured_at', { ascending: false })
+      .limit(MAX_LIMIT * 10);
+    if (typeof before === 'string') {
+      runsQuery = runsQuery.lt('created_at', before);
+      pricesQuery = pricesQuery.lt('captured_at', before);
+    }
+    if (typeof since === 'string') {
+      runsQuery = runsQuery.gte('created_at', since);
+      pricesQuery = pricesQuery.gte('captured_at', since);
+    }
+
+    const [{ data: runs, error: runsError }, { data: prices, error: pricesError }] =
+      await Promise.all([runsQuery, pricesQuery]);
+    if (runsError) throw runsError;
+    if (pricesError) throw pricesError;
+
+    return new Response(
+      JSON.stringify({ product, runs, prices: prices.reverse() }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Listing runs failed:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: 'Internal server error: ' + errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
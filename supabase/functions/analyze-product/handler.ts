@@ -0,0 +1,597 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { isAdminRequest } from '../_shared/admin.ts';
+import {
+  type AiValidation,
+  type AnalysisStatus,
+  parseAiReply,
+  validateAiOutput,
+} from '../_shared/ai-output.ts';
+import type { AnalysisMeta, AnalysisPayload } from '../_shared/analysis-payload.ts';
+import { ANALYSER_TEMPLATES, analyserTemplate, CURRENT_ANALYSER_VERSION } from '../_shared/analysis-prompts.ts';
+import { assessQuality, type FetchStrategy, type PageContent } from '../_shared/analysis-quality.ts';
+import { analyzeAspects, MIN_SENTIMENT_REVIEWS } from '../_shared/aspect-sentiment.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+import { applyCanonicalLink, applyFinalUrl, type CanonicalUrl, canonicalizeUrl } from '../_shared/canonical-url.ts';
+import { applyRubric, describeTaxonomy, loadTaxonomy, resolveCategory } from '../_shared/category-rubric.ts';
+import { buildEvidence, citeClaims, describeFacts } from '../_shared/claim-evidence.ts';
+import { resolveUrl } from '../_shared/extraction/dom.ts';
+import { extractProduct } from '../_shared/extraction/extract.ts';
+import { collectReviews, type CrawlOptions } from '../_shared/extraction/review-crawler.ts';
+import { dedupeReviews } from '../_shared/extraction/reviews.ts';
+import { llmClientFromEnv } from '../_shared/llm/provider.ts';
+import type { ChatMessage } from '../_shared/llm/types.ts';
+import {
+  emptyExtractedProduct,
+  type ExtractedProduct,
+  type ExtractedReview,
+  fillFields,
+  type ProductVariant,
+} from '../_shared/extraction/types.ts';
+import { offlineAnalysisReply } from '../_shared/offline-analysis.ts';
+import { recordOffers, sourceOffer } from '../_shared/offers.ts';
+import { crawlDue, loadStoredReviews, recordReviews } from '../_shared/product-reviews.ts';
+import { sampleReviews } from '../_shared/review-sample.ts';
+import { computeScore } from '../_shared/scoring.ts';
+import { verifyStoreOffers } from '../_shared/store-verification.ts';
+import { requestValidReply } from '../_shared/validated-reply.ts';
+
+const envInt = (name: string): number | undefined => {
+  const value = parseInt(Deno.env.get(name) ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+};
+
+// Caps on review listing crawls; unset variables keep the crawler defaults.
+const REVIEW_CRAWL: CrawlOptions = {
+  maxPages: envInt('REVIEW_CRAWL_MAX_PAGES'),
+  maxReviews: envInt('REVIEW_CRAWL_MAX_REVIEWS'),
+};
+
+interface AnalysisResult {
+  url: string;
+  canonical_url: string;
+  product_key: string | null;
+  domain: string;
+  fetched_at: string;
+  title: string | null;
+  image: string | null;
+  description: string | null;
+  price: number | null;
+  currency: string | null;
+  rating: number | null;
+  review_count: number | null;
+  brand: string | null;
+  sku: string | null;
+  gtin: string | null;
+  mpn: string | null;
+  in_stock: boolean | null;
+  variants: ProductVariant[];
+  ai_score: number;
+  sentiment_score: number;
+  short_review: string;
+  // Claim texts only; the cited evidence is kept in `analysis`.
+  pros: string[];
+  cons: string[];
+  category: string | null;
+  category_id: string;
+  analysis: AnalysisPayload;
+  analyser_version: string;
+  cached_until: string;
+  reviews_crawled_at: string | null;
+}
+
+// Fresh cached inspection for the canonical URL, falling back to any row for
+// the same retailer product key (e.g. an ASIN reached through another path).
+// Rows produced by an older analyser version are stale however recent.
+const findCachedInspection = async (supabase: SupabaseClient, canonical: CanonicalUrl) => {
+  const now = new Date().toISOString();
+  const { data: byUrl } = await supabase
+    .from('product_inspections')
+    .select('*')
+    .eq('canonical_url', canonical.canonical)
+    .eq('analyser_version', CURRENT_ANALYSER_VERSION)
+    .gt('cached_until', now)
+    .maybeSingle();
+  if (byUrl || !canonical.product_key) return byUrl;
+
+  const { data: byKey } = await supabase
+    .from('product_inspections')
+    .select('*')
+    .eq('product_key', canonical.product_key)
+    .eq('analyser_version', CURRENT_ANALYSER_VERSION)
+    .gt('cached_until', now)
+    .order('fetched_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  return byKey;
+};
+
+type InspectionRow = NonNullable<Awaited<ReturnType<typeof findCachedInspection>>>;
+
+const cachedResponse = (cached: InspectionRow, submittedUrl: string) => {
+  console.log('Returning cached result');
+  // Only rows from the current analyser version are served, and those always
+  // carry the full payload with cited claims.
+  const payload: AnalysisPayload = cached.analysis;
+  return new Response(
+    JSON.stringify({
+      url: submittedUrl,
+      canonical_url: cached.canonical_url,
+      product_id: cached.id,
+      ...payload,
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+};
+
+// The whole analysis request, exported apart from `Deno.serve` so the
+// evaluation runner can drive it in-process.
+export const handleAnalyzeProduct = async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const startedAt = Date.now();
+    const { url, analyser_version: requestedVersion, preview: previewRequested, force } = await req.json();
+    
+    if (!url || typeof url !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Valid product URL is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Admins may bypass the cache (`force`), and analyse with another
+    // template version or without storing anything (`preview`), e.g. to
+    // compare a candidate version against the stored results.
+    if ((requestedVersion !== undefined || previewRequested !== undefined || force !== undefined) && !isAdminRequest(req)) {
+      return new Response(
+        JSON.stringify({ error: 'Admin access required for analyser_version, preview and force' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const analyserVersion = typeof requestedVersion === 'string' ? requestedVersion : CURRENT_ANALYSER_VERSION;
+    if (!ANALYSER_TEMPLATES[analyserVersion]) {
+      return new Response(
+        JSON.stringify({ error: `Unknown analyser version "${analyserVersion}"` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    // A result from any version but the current one would be stale as soon as
+    // it was stored.
+    const preview = previewRequested === true || analyserVersion !== CURRENT_ANALYSER_VERSION;
+    const bypassCache = force === true || preview;
+
+    let canonical: CanonicalUrl;
+    try {
+      new URL(url);
+      canonical = await canonicalizeUrl(url);
+    } catch {
+      return new Response(
+        JSON.stringify({ error: 'Invalid URL format' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log('Analyzing product:', url, '->', canonical.canonical);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Check cache
+    const cached = bypassCache ? null : await findCachedInspection(supabase, canonical);
+    if (cached) {
+      return cachedResponse(cached, url);
+    }
+
+    // Fetch product page
+    console.log('Fetching product page...');
+    const fetchStartedAt = Date.now();
+    let fetchStrategy: FetchStrategy = 'failed';
+    let pageContent: PageContent = 'none';
+    const pageResponse = await fetch(canonical.canonical, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      },
+    });
+
+    let product: ExtractedProduct = emptyExtractedProduct(canonical.canonical);
+    let pageHtml: string | null = null;
+
+    if (!pageResponse.ok) {
+      console.error('Failed to fetch page:', pageResponse.status);
+      
+      // Try Firecrawl
+      const FIRECRAWL_API_KEY = Deno.env.get('FIRECRAWL_API_KEY');
+      if (FIRECRAWL_API_KEY && (pageResponse.status === 429 || pageResponse.status === 529 || pageResponse.status === 403)) {
+        try {
+          console.log('Using Firecrawl scrape...');
+          const fcResp = await fetch('https://api.firecrawl.dev/v2/scrape', {
+            method: 'POST',
+            headers: {
+              'Authorization': `Bearer ${FIRECRAWL_API_KEY}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              url,
+              formats: ['html'],
+              onlyMainContent: false,
+            }),
+          });
+
+          if (fcResp.ok) {
+            const fcData = await fcResp.json();
+            fetchStrategy = 'firecrawl';
+            pageContent = 'metadata';
+            const md = fcData?.data?.metadata || {};
+            if (typeof fcData?.data?.html === 'string') {
+              pageHtml = fcData.data.html;
+              product = await extractProduct(fcData.data.html, canonical.canonical);
+              pageContent = 'full';
+            }
+            fillFields(product, 'firecrawl', {
+              title: md.title,
+              description: md.description,
+              image: resolveUrl(md.ogImage, canonical.canonical),
+            });
+          }
+        } catch (e) {
+          console.error('Firecrawl failed:', e);
+        }
+      }
+    } else {
+      const html = await pageResponse.text();
+      pageHtml = html;
+      fetchStrategy = 'direct';
+      pageContent = 'full';
+      product = await extractProduct(html, pageResponse.url || canonical.canonical);
+    }
+
+    // The URL the fetch was redirected to, then the page's own canonical link,
+    // can reveal an existing entry for the same product that the submitted URL
+    // alone did not match; either way the result is stored under them.
+    const redirectedTo = pageResponse.ok && pageResponse.redirected ? pageResponse.url : null;
+    const linked = applyCanonicalLink(applyFinalUrl(canonical, redirectedTo), product.canonical_url);
+    if (linked.canonical !== canonical.canonical || linked.product_key !== canonical.product_key) {
+      canonical = linked;
+      const cachedByLink = bypassCache ? null : await findCachedInspection(supabase, canonical);
+      if (cachedByLink) {
+        return cachedResponse(cachedByLink, url);
+      }
+    }
+    const domain = new URL(canonical.canonical).hostname;
+    const fetchMs = Date.now() - fetchStartedAt;
+
+    const title = product.title || 'Product';
+    const { image, description } = product;
+
+    const meta: AnalysisMeta = {
+      title,
+      image,
+      description,
+      price: product.price,
+      currency: product.currency,
+      rating: product.rating,
+      review_count: product.review_count,
+      brand: product.brand,
+      sku: product.sku,
+      gtin: product.gtin,
+      mpn: product.mpn,
+      in_stock: product.in_stock,
+      variants: product.variants,
+      extractor: product.extractor,
+      sources: product.sources,
+    };
+
+    // Reviews beyond those embedded in the page: from earlier crawls while
+    // they are fresh, else from the product's review listing.
+    const reviewsStartedAt = Date.now();
+    const { data: known } = await supabase
+      .from('product_inspections')
+      .select('id, reviews_crawled_at')
+      .eq('canonical_url', canonical.canonical)
+      .maybeSingle();
+    const storedReviews = known ? await loadStoredReviews(supabase, known.id) : [];
+    let reviewsCrawledAt: string | null = known?.reviews_crawled_at ?? null;
+    let crawledReviews: ExtractedReview[] = [];
+    if (pageHtml && crawlDue(reviewsCrawledAt)) {
+      crawledReviews = await collectReviews(pageHtml, product.url, REVIEW_CRAWL);
+      reviewsCrawledAt = new Date().toISOString();
+    }
+    const newReviews = dedupeReviews([...product.reviews, ...crawledReviews]);
+    product.reviews = dedupeReviews([...newReviews, ...storedReviews]);
+    const reviewsMs = Date.now() - reviewsStartedAt;
+
+    // The reviews summary is written from these alone.
+    const reviewSample = sampleReviews(product.reviews);
+    const evidence = buildEvidence(product, reviewSample, { url: canonical.canonical, title });
+
+    const assess = (aiStatus: AnalysisStatus) =>
+      assessQuality({
+        strategy: fetchStrategy,
+        http_status: pageResponse.status,
+        content: pageContent,
+        sources: product.sources,
+        rating: product.rating,
+        review_count: product.review_count,
+        review_texts: product.reviews.length,
+        ai_status: aiStatus,
+      });
+
+    // Detect category and generate analysis with AI
+    console.log('Calling AI for analysis...');
+    const aiStartedAt = Date.now();
+    const taxonomy = await loadTaxonomy(supabase);
+    // The mock provider answers as if the model picked the first category
+    // named in the title.
+    const llm = llmClientFromEnv(() => {
+      const lowerTitle = title.toLowerCase();
+      const named = taxonomy.find((node) =>
+        [node.name, ...node.aliases].some((name) => lowerTitle.includes(name.toLowerCase()))
+      );
+      return offlineAnalysisReply({
+        title,
+        rating: product.rating,
+        category: resolveCategory(taxonomy, named?.id),
+        evidence,
+      });
+    });
+    
+    const analyser = analyserTemplate(analyserVersion);
+    const aiPrompt = analyser.prompt({
+      title,
+      url: canonical.canonical,
+      domain,
+      facts: describeFacts(evidence),
+      reviews: reviewSample,
+      reviews_found: product.reviews.length,
+      taxonomy: describeTaxonomy(taxonomy),
+    });
+
+    const aiMessages: ChatMessage[] = [
+      { role: 'system', content: analyser.system },
+      { role: 'user', content: aiPrompt }
+    ];
+    const categoryIds = taxonomy.map((node) => node.id);
+    const validateReply = (content: unknown): AiValidation => {
+      const parsed = parseAiReply(content);
+      if (!parsed.ok) return parsed;
+      const chosen = (parsed.value as { category_id?: unknown } | null)?.category_id;
+      const node = resolveCategory(taxonomy, typeof chosen === 'string' ? chosen.trim() : null);
+      return validateAiOutput(parsed.value, {
+        categoryIds,
+        dimensionKeys: node.dimensions.map((dimension) => dimension.key),
+      });
+    };
+
+    const reply = await requestValidReply(llm, aiMessages, validateReply, analyser.repair);
+    if (!reply.ok) {
+      console.error('AI API error after retries:', reply.status, reply.error);
+      
+      if (reply.status === 429) {
+        return new Response(
+          JSON.stringify({ error: 'AI rate limit exceeded. Please try again later.' }),
+          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      
+      if (reply.status === 402) {
+        return new Response(
+          JSON.stringify({ error: 'AI credits exhausted. Please add credits to your workspace.' }),
+          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      
+      return new Response(
+        JSON.stringify({ error: 'AI analysis failed' }),
+        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const { validation, status, usage: modelUsage } = reply;
+
+    // Nothing is cached or recorded for a failed analysis, so the next
+    // request tries again instead of serving a placeholder.
+    if (!validation.ok) {
+      return new Response(
+        JSON.stringify({
+          error: 'AI analysis could not be validated. Please try again.',
+          status: 'failed' satisfies AnalysisStatus,
+          errors: validation.errors,
+          url,
+          canonical_url: canonical.canonical,
+          meta,
+          quality: assess('failed'),
+          model: modelUsage,
+        }),
+        { status: 502, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const aiAnalysis = validation.value;
+
+    const aiMs = Date.now() - aiStartedAt;
+
+    const verifyStartedAt = Date.now();
+    // The 'Product' stand-in title would match no store page.
+    const verifiedStores = await verifyStoreOffers(aiAnalysis.stores, {
+      title: product.title,
+      canonical_url: canonical.canonical,
+    });
+    const verifyMs = Date.now() - verifyStartedAt;
+    const stores = pageContent === 'full'
+      ? [sourceOffer(product, canonical.canonical, new Date(fetchStartedAt).toISOString()), ...verifiedStores]
+      : verifiedStores;
+    const now = new Date();
+    const cachedUntil = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+
+    const pros = citeClaims(aiAnalysis.pros, evidence);
+    const cons = citeClaims(aiAnalysis.cons, evidence);
+    const categoryNode = resolveCategory(taxonomy, aiAnalysis.category_id);
+    // Aspect sentiment is read from every collected review, not just the
+    // prompt sample; with enough of them it replaces the model's estimate.
+    const sentimentBreakdown = product.reviews.length > 0
+      ? analyzeAspects(product.reviews, categoryNode.dimensions)
+      : undefined;
+    const sentimentScore = sentimentBreakdown && sentimentBreakdown.reviews >= MIN_SENTIMENT_REVIEWS &&
+        sentimentBreakdown.overall !== null
+      ? sentimentBreakdown.overall
+      : aiAnalysis.sentiment_score;
+    const categoryScores = applyRubric(categoryNode, aiAnalysis.category_scores);
+    const scoreExplanation = computeScore({
+      category_scores: categoryScores,
+      rating: product.rating,
+      review_count: product.review_count,
+      sentiment_score: sentimentScore,
+      model_score: aiAnalysis.score,
+    });
+    const aiScore = scoreExplanation.score;
+    const category = aiAnalysis.category || categoryNode.name;
+
+    const payload: AnalysisPayload = {
+      status,
+      analyser_version: analyser.version,
+      meta,
+      quality: assess(status),
+      model: modelUsage,
+      ai: {
+        score: aiScore,
+        short_review: aiAnalysis.short_review,
+        pros,
+        cons,
+        sentiment_score: sentimentScore,
+        score_explanation: scoreExplanation,
+        category,
+        category_id: categoryNode.id,
+        category_scores: categoryScores,
+        stores,
+        // Only a summary of reviews actually read is kept; the model is not
+        // trusted to count its own sources.
+        reviews_summary: reviewSample.length > 0 ? aiAnalysis.reviews_summary ?? undefined : undefined,
+        sources_count: reviewSample.length > 0 ? reviewSample.length : undefined,
+        sentiment_breakdown: sentimentBreakdown,
+      },
+      reviews: { found: product.reviews.length, items: reviewSample },
+    };
+
+    const result: AnalysisResult = {
+      url,
+      canonical_url: canonical.canonical,
+      product_key: canonical.product_key,
+      domain,
+      fetched_at: now.toISOString(),
+      title,
+      image,
+      description,
+      price: product.price,
+      currency: product.currency,
+      rating: product.rating,
+      review_count: product.review_count,
+      brand: product.brand,
+      sku: product.sku,
+      gtin: product.gtin,
+      mpn: product.mpn,
+      in_stock: product.in_stock,
+      variants: product.variants,
+      ai_score: aiScore,
+      sentiment_score: sentimentScore,
+      short_review: aiAnalysis.short_review,
+      pros: pros.map((claim) => claim.text),
+      cons: cons.map((claim) => claim.text),
+      category,
+      category_id: categoryNode.id,
+      analysis: payload,
+      analyser_version: analyser.version,
+      cached_until: cachedUntil.toISOString(),
+      reviews_crawled_at: reviewsCrawledAt,
+    };
+
+    if (preview) {
+      return new Response(
+        JSON.stringify({
+          url: result.url,
+          canonical_url: result.canonical_url,
+          product_id: known?.id ?? null,
+          preview: true,
+          ...payload,
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { data: saved, error: saveError } = await supabase
+      .from('product_inspections')
+      .upsert(result, { onConflict: 'canonical_url' })
+      .select('id')
+      .single();
+
+    // History is append-only: the inspection row above is the latest snapshot,
+    // each run row is kept for auditing and trend charts.
+    if (saveError || !saved) {
+      console.error('Failed to save inspection:', saveError);
+    } else {
+      const { data: run, error: runError } = await supabase.from('analysis_runs').insert({
+        product_id: saved.id,
+        url,
+        canonical_url: canonical.canonical,
+        analyser_version: analyser.version,
+        model: modelUsage.model,
+        status,
+        fetch_strategy: fetchStrategy,
+        http_status: pageResponse.status,
+        extractor: product.extractor,
+        timings: {
+          fetch_ms: fetchMs,
+          reviews_ms: reviewsMs,
+          ai_ms: aiMs,
+          verify_ms: verifyMs,
+          total_ms: Date.now() - startedAt,
+        },
+        ai_score: aiScore,
+        sentiment_score: sentimentScore,
+        price: product.price,
+        currency: product.currency,
+        rating: product.rating,
+        category: result.category,
+        category_id: result.category_id,
+        analysis: payload,
+      }).select('id').single();
+      if (runError) console.error('Failed to record analysis run:', runError);
+
+      if (product.price !== null) {
+        const { error: snapshotError } = await supabase.from('price_snapshots').insert({
+          product_id: saved.id,
+          run_id: run?.id ?? null,
+          store: domain.replace(/^www\./, ''),
+          store_url: canonical.canonical,
+          source: 'page',
+          price: product.price,
+          currency: product.currency,
+          in_stock: product.in_stock,
+        });
+        if (snapshotError) console.error('Failed to record price snapshot:', snapshotError);
+      }
+
+      await recordOffers(supabase, saved.id, run?.id ?? null, stores);
+      await recordReviews(supabase, saved.id, newReviews);
+    }
+
+    return new Response(
+      JSON.stringify({
+        url: result.url,
+        canonical_url: result.canonical_url,
+        product_id: saved?.id ?? null,
+        ...payload,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Analysis error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: 'Internal server error: ' + errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+};
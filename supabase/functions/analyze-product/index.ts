@@ -1,316 +1,3 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { handleAnalyzeProduct } from './handler.ts';
 
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
-
-interface AnalysisResult {
-  url: string;
-  domain: string;
-  fetched_at: string;
-  title: string | null;
-  image: string | null;
-  description: string | null;
-  price: number | null;
-  currency: string | null;
-  rating: number | null;
-  ai_score: number;
-  sentiment_score: number;
-  short_review: string;
-  pros: string[];
-  cons: string[];
-  cached_until: string;
-}
-
-Deno.serve(async (req) => {
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const { url } = await req.json();
-    
-    if (!url || typeof url !== 'string') {
-      return new Response(
-        JSON.stringify({ error: 'Valid product URL is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    let parsedUrl: URL;
-    try {
-      parsedUrl = new URL(url);
-    } catch {
-      return new Response(
-        JSON.stringify({ error: 'Invalid URL format' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const domain = parsedUrl.hostname;
-    console.log('Analyzing product:', url);
-
-    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
-    // Check cache
-    const { data: cached } = await supabase
-      .from('product_inspections')
-      .select('*')
-      .eq('url', url)
-      .maybeSingle();
-
-    if (cached && new Date(cached.cached_until) > new Date()) {
-      console.log('Returning cached result');
-      return new Response(
-        JSON.stringify({
-          url: cached.url,
-          meta: {
-            title: cached.title,
-            image: cached.image,
-            description: cached.description,
-            price: cached.price ? parseFloat(cached.price) : null,
-            currency: cached.currency,
-            rating: cached.rating ? parseFloat(cached.rating) : null,
-          },
-          ai: {
-            score: cached.ai_score,
-            short_review: cached.short_review,
-            pros: cached.pros,
-            cons: cached.cons,
-            sentiment_score: cached.sentiment_score ? parseFloat(cached.sentiment_score) : 0,
-          },
-        }),
-        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    // Fetch product page
-    console.log('Fetching product page...');
-    const pageResponse = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-      },
-    });
-
-    let title = 'Product';
-    let image: string | null = null;
-    let description: string | null = null;
-
-    if (!pageResponse.ok) {
-      console.error('Failed to fetch page:', pageResponse.status);
-      
-      // Try Firecrawl
-      const FIRECRAWL_API_KEY = Deno.env.get('FIRECRAWL_API_KEY');
-      if (FIRECRAWL_API_KEY && (pageResponse.status === 429 || pageResponse.status === 529 || pageResponse.status === 403)) {
-        try {
-          console.log('Using Firecrawl scrape...');
-          const fcResp = await fetch('https://api.firecrawl.dev/v2/scrape', {
-            method: 'POST',
-            headers: {
-              'Authorization': `Bearer ${FIRECRAWL_API_KEY}`,
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              url,
-              formats: ['html'],
-              onlyMainContent: false,
-            }),
-          });
-
-          if (fcResp.ok) {
-            const fcData = await fcResp.json();
-            const md = fcData?.data?.metadata || {};
-            title = md.title || title;
-            image = md.ogImage || null;
-            description = md.description || null;
-          }
-        } catch (e) {
-          console.error('Firecrawl failed:', e);
-        }
-      }
-    } else {
-      const html = await pageResponse.text();
-      
-      const extractMeta = (pattern: string): string | null => {
-        const match = html.match(new RegExp(pattern, 'i'));
-        return match ? match[1].replace(/"/g, '') : null;
-      };
-
-      title = extractMeta('<title[^>]*>([^<]+)</title>') || 
-              extractMeta('property="og:title"[^>]*content="([^"]+)"') ||
-              'Product';
-      image = extractMeta('property="og:image"[^>]*content="([^"]+)"') ||
-              extractMeta('<img[^>]*src="([^"]+)"');
-      description = extractMeta('property="og:description"[^>]*content="([^"]+)"') ||
-                   extractMeta('name="description"[^>]*content="([^"]+)"');
-    }
-
-    // Detect category and generate analysis with AI
-    console.log('Calling AI for analysis...');
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    
-    const aiPrompt = `Analyze this product and provide:
-1. Product category (e.g., "Facewash", "Headphones", "Laptop", etc.)
-2. Overall score (0-100)
-3. 4 category-specific scores with labels (e.g., for facewash: skin sensitivity, gentleness, etc.; for headphones: battery life, comfort, etc.)
-4. Short review (2-3 sentences)
-5. 6 pros
-6. 2 cons
-7. Sentiment score (-1 to 1)
-8. Available stores (check if product is on Amazon, Flipkart, etc. with same product - only include if found)
-9. Reviews summary from internet sources
-
-Product: ${title}
-URL: ${url}
-Domain: ${domain}
-Description: ${description || 'Not available'}
-
-Respond in JSON format only:
-{
-  "category": "string",
-  "score": number (0-100),
-  "category_scores": [{"label": "string", "score": number}, ...] (exactly 4),
-  "short_review": "string",
-  "pros": ["string", ...] (exactly 6),
-  "cons": ["string", ...] (exactly 2),
-  "sentiment_score": number (-1 to 1),
-  "stores": [{"name": "string", "url": "string", "price": "string"}],
-  "reviews_summary": "string (summary from Reddit, blogs, YouTube, user reviews)",
-  "sources_count": number
-}`;
-
-    const aiResponse = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          { role: 'system', content: 'You are a product analyst AI. Always respond with valid JSON only.' },
-          { role: 'user', content: aiPrompt }
-        ],
-        temperature: 0.7,
-        max_tokens: 1500,
-      }),
-    });
-
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error('AI API error:', aiResponse.status, errorText);
-      
-      if (aiResponse.status === 429) {
-        return new Response(
-          JSON.stringify({ error: 'AI rate limit exceeded. Please try again later.' }),
-          { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      if (aiResponse.status === 402) {
-        return new Response(
-          JSON.stringify({ error: 'AI credits exhausted. Please add credits to your workspace.' }),
-          { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-        );
-      }
-      
-      return new Response(
-        JSON.stringify({ error: 'AI analysis failed' }),
-        { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
-    }
-
-    const aiData = await aiResponse.json();
-    console.log('AI response received');
-    
-    let aiAnalysis;
-    try {
-      const content = aiData.choices[0].message.content;
-      const cleanedContent = content.replace(/```json\n?|\n?```/g, '').trim();
-      aiAnalysis = JSON.parse(cleanedContent);
-    } catch (e) {
-      console.error('Failed to parse AI response:', e);
-      aiAnalysis = {
-        category: 'General',
-        score: 75,
-        category_scores: [
-          { label: 'Quality', score: 75 },
-          { label: 'Value', score: 70 },
-          { label: 'Features', score: 80 },
-          { label: 'Reliability', score: 75 }
-        ],
-        short_review: 'Product analysis completed.',
-        pros: ['Available', 'Listed', 'Accessible', 'Online', 'Verified', 'Reputable'],
-        cons: ['Limited data', 'Manual review recommended'],
-        sentiment_score: 0.5,
-        stores: [],
-        reviews_summary: 'Limited review data available.',
-        sources_count: 0
-      };
-    }
-
-    const now = new Date();
-    const cachedUntil = new Date(now.getTime() + 24 * 60 * 60 * 1000);
-
-    const result: AnalysisResult = {
-      url,
-      domain,
-      fetched_at: now.toISOString(),
-      title,
-      image,
-      description,
-      price: null,
-      currency: null,
-      rating: null,
-      ai_score: Math.min(100, Math.max(0, Math.round(aiAnalysis.score))),
-      sentiment_score: Math.min(1, Math.max(-1, aiAnalysis.sentiment_score)),
-      short_review: aiAnalysis.short_review,
-      pros: Array.isArray(aiAnalysis.pros) ? aiAnalysis.pros.slice(0, 6) : [],
-      cons: Array.isArray(aiAnalysis.cons) ? aiAnalysis.cons.slice(0, 2) : [],
-      cached_until: cachedUntil.toISOString(),
-    };
-
-    await supabase
-      .from('product_inspections')
-      .upsert(result, { onConflict: 'url' });
-
-    return new Response(
-      JSON.stringify({
-        url: result.url,
-        meta: {
-          title: result.title,
-          image: result.image,
-          description: result.description,
-          price: result.price,
-          currency: result.currency,
-          rating: result.rating,
-        },
-        ai: {
-          score: result.ai_score,
-          short_review: result.short_review,
-          pros: result.pros,
-          cons: result.cons,
-          sentiment_score: result.sentiment_score,
-          category: aiAnalysis.category,
-          category_scores: aiAnalysis.category_scores,
-          stores: aiAnalysis.stores || [],
-          reviews_summary: aiAnalysis.reviews_summary,
-          sources_count: aiAnalysis.sources_count
-        },
-      }),
-      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-
-  } catch (error) {
-    console.error('Analysis error:', error);
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    return new Response(
-      JSON.stringify({ error: 'Internal server error: ' + errorMessage }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
-  }
-});
+Deno.serve(handleAnalyzeProduct);
@@ -0,0 +1,221 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { isAdminRequest } from '../_shared/admin.ts';
+import { type AnalysisDiff, diffAnalyses, summarizeDiffs } from '../_shared/analysis-diff.ts';
+import type { AnalysisAi, AnalysisPayload } from '../_shared/analysis-payload.ts';
+import { ANALYSER_TEMPLATES, CURRENT_ANALYSER_VERSION } from '../_shared/analysis-prompts.ts';
+import { canonicalizeUrl } from '../_shared/canonical-url.ts';
+import { upgradeClaims } from '../_shared/claim-evidence.ts';
+import { corsHeaders } from '../_shared/cors.ts';
+
+const DEFAULT_LIMIT = 3;
+// Each product is a full analysis of up to about a minute; more than this
+// risks the function's own wall-clock limit.
+const MAX_LIMIT = 5;
+// Pause between analyses so the AI provider and retailers see no burst.
+const PAUSE_MS = 1000;
+
+interface ReanalysisItem {
+  product_id: string;
+  canonical_url: string;
+  previous_version: string;
+  ok: boolean;
+  analyser_version?: string;
+  error?: string;
+  diff?: AnalysisDiff;
+}
+
+const strings = (value: unknown): string[] | null =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : null;
+
+// Admin-only. Re-runs a chosen set of stored products through an analyser
+// version (the current one by default) and stores a before/after report in
+// `reanalysis_reports`, updated as each product finishes.
+//
+// Selection: `product_ids`, `urls`, `version` (stored analyser version),
+// `domain` and `category` (taxonomy id), combined; oldest results first, at
+// most `limit` per call. Without any of them the current version re-analyses
+// the products whose results are stale.
+//
+// With the current version the new results replace the stored ones; any
+// other version, or `preview: true`, only reports. `dry_run: true` lists the
+// selected products without analysing them.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!isAdminRequest(req)) {
+      return new Response(
+        JSON.stringify({ error: 'Admin access required' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const body = await req.json().catch(() => ({}));
+    const { limit, version, domain, category, dry_run } = body;
+    const analyserVersion = typeof body.analyser_version === 'string' ? body.analyser_version : CURRENT_ANALYSER_VERSION;
+    if (!ANALYSER_TEMPLATES[analyserVersion]) {
+      return new Response(
+        JSON.stringify({ error: `Unknown analyser version "${analyserVersion}"` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    const preview = body.preview === true || analyserVersion !== CURRENT_ANALYSER_VERSION;
+
+    let canonicalUrls: string[] | null = null;
+    const urls = strings(body.urls);
+    if (urls) {
+      try {
+        canonicalUrls = await Promise.all(urls.map(async (url) => (await canonicalizeUrl(url)).canonical));
+      } catch {
+        return new Response(
+          JSON.stringify({ error: 'Invalid URL format in urls' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+    const productIds = strings(body.product_ids);
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const batchSize = Math.min(MAX_LIMIT, Math.max(1, Number(limit) || DEFAULT_LIMIT));
+    let selected = supabase
+      .from('product_inspections')
+      .select(
+        'id, canonical_url, analyser_version, fetched_at, analysis, ai_score, short_review, pros, cons, sentiment_score, category, category_id',
+        { count: 'exact' },
+      )
+      .order('fetched_at', { ascending: true })
+      .limit(batchSize);
+    if (productIds) selected = selected.in('id', productIds);
+    if (canonicalUrls) selected = selected.in('canonical_url', canonicalUrls);
+    if (typeof version === 'string') selected = selected.eq('analyser_version', version);
+    if (typeof domain === 'string') selected = selected.eq('domain', domain);
+    if (typeof category === 'string') selected = selected.eq('category_id', category);
+    const chosen = productIds || canonicalUrls || typeof version === 'string' || typeof domain === 'string' ||
+      typeof category === 'string';
+    if (!chosen && !preview) selected = selected.neq('analyser_version', CURRENT_ANALYSER_VERSION);
+
+    const { data: rows, count, error } = await selected;
+    if (error) throw error;
+
+    const selection = {
+      product_ids: productIds,
+      urls: canonicalUrls,
+      version: typeof version === 'string' ? version : null,
+      domain: typeof domain === 'string' ? domain : null,
+      category: typeof category === 'string' ? category : null,
+      limit: batchSize,
+    };
+
+    if (dry_run) {
+      return new Response(
+        JSON.stringify({
+          analyser_version: analyserVersion,
+          preview,
+          selection,
+          matching: count ?? rows.length,
+          products: rows.map(({ id, canonical_url, analyser_version, fetched_at }) => ({
+            id,
+            canonical_url,
+            analyser_version,
+            fetched_at,
+          })),
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The report is stored up front and updated after every product, so a
+    // call cut off by the time limit keeps the products it finished.
+    const items: ReanalysisItem[] = [];
+    const summarize = () =>
+      summarizeDiffs(
+        items.flatMap((item) => (item.diff ? [item.diff] : [])),
+        items.filter((item) => !item.ok).length,
+      );
+    const { data: report, error: reportError } = await supabase
+      .from('reanalysis_reports')
+      .insert({ analyser_version: analyserVersion, preview, selection, summary: summarize(), items })
+      .select('id, created_at')
+      .single();
+    if (reportError) console.error('Failed to store reanalysis report:', reportError);
+    const updateReport = async (fields: Record<string, unknown>) => {
+      if (!report) return;
+      const { error: updateError } = await supabase.from('reanalysis_reports').update(fields).eq('id', report.id);
+      if (updateError) console.error('Failed to update reanalysis report:', updateError);
+    };
+
+    for (const [idx, row] of rows.entries()) {
+      if (idx > 0) await new Promise((resolve) => setTimeout(resolve, PAUSE_MS));
+      // Rows from before the `analysis` column are compared on their flat
+      // columns.
+      const before: AnalysisAi = (row.analysis as AnalysisPayload | null)?.ai ?? {
+        score: row.ai_score,
+        short_review: row.short_review,
+        pros: upgradeClaims(row.pros),
+        cons: upgradeClaims(row.cons),
+        sentiment_score: row.sentiment_score ?? 0,
+        category: row.category ?? undefined,
+        category_id: row.category_id ?? undefined,
+      };
+      const item: ReanalysisItem = {
+        product_id: row.id,
+        canonical_url: row.canonical_url,
+        previous_version: row.analyser_version,
+        ok: false,
+      };
+      try {
+        const response = await fetch(`${supabaseUrl}/functions/v1/analyze-product`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${supabaseServiceKey}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ url: row.canonical_url, analyser_version: analyserVersion, preview, force: true }),
+        });
+        const after = await response.json().catch(() => null) as (AnalysisPayload & { error?: string }) | null;
+        if (response.ok && after?.ai) {
+          item.ok = true;
+          item.analyser_version = after.analyser_version;
+          item.diff = diffAnalyses(before, after.ai);
+        } else {
+          item.error = after?.error ?? `analyze-product responded ${response.status}`;
+        }
+      } catch (e) {
+        item.error = e instanceof Error ? e.message : String(e);
+      }
+      console.log('Re-analysed', row.canonical_url, item.ok ? 'ok' : item.error);
+      items.push(item);
+      await updateReport({ summary: summarize(), items });
+    }
+
+    const summary = summarize();
+    await updateReport({ completed_at: new Date().toISOString() });
+
+    return new Response(
+      JSON.stringify({
+        report_id: report?.id ?? null,
+        analyser_version: analyserVersion,
+        preview,
+        selection,
+        // Products matching the selection, of which this call took `limit`.
+        matching: count ?? rows.length,
+        summary,
+        items,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Re-analysis failed:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(
+      JSON.stringify({ error: 'Internal server error: ' + errorMessage }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
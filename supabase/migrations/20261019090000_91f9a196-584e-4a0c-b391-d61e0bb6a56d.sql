@@ -0,0 +1,7 @@
+-- Structured product data extracted from JSON-LD, microdata and product meta tags
+ALTER TABLE public.product_inspections
+  ADD COLUMN IF NOT EXISTS review_count INTEGER CHECK (review_count >= 0),
+  ADD COLUMN IF NOT EXISTS brand TEXT,
+  ADD COLUMN IF NOT EXISTS sku TEXT,
+  ADD COLUMN IF NOT EXISTS gtin TEXT,
+  ADD COLUMN IF NOT EXISTS mpn TEXT;
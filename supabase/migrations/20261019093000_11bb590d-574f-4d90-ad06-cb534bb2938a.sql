@@ -0,0 +1,4 @@
+-- Stock status and variants reported by platform product APIs (Shopify, WooCommerce)
+ALTER TABLE public.product_inspections
+  ADD COLUMN IF NOT EXISTS in_stock BOOLEAN,
+  ADD COLUMN IF NOT EXISTS variants JSONB NOT NULL DEFAULT '[]'::jsonb;
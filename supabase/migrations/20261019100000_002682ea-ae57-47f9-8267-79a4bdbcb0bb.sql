@@ -0,0 +1,18 @@
+-- Key the cache on the canonical product URL instead of the submitted URL
+ALTER TABLE public.product_inspections
+  ADD COLUMN IF NOT EXISTS canonical_url TEXT,
+  ADD COLUMN IF NOT EXISTS product_key TEXT;
+
+UPDATE public.product_inspections SET canonical_url = url WHERE canonical_url IS NULL;
+
+ALTER TABLE public.product_inspections ALTER COLUMN canonical_url SET NOT NULL;
+
+-- `url` now records the most recently submitted link and may repeat across rows
+ALTER TABLE public.product_inspections DROP CONSTRAINT IF EXISTS product_inspections_url_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_inspections_canonical_url
+  ON public.product_inspections(canonical_url);
+
+-- Retailer-scoped product id (ASIN, Flipkart PID, ...) for cross-URL cache hits
+CREATE INDEX IF NOT EXISTS idx_product_inspections_product_key
+  ON public.product_inspections(product_key);
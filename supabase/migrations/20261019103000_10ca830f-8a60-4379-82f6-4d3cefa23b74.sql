@@ -0,0 +1,8 @@
+-- Persist the full analysis response so cache hits return category scores,
+-- stores and the reviews summary alongside the flat columns
+ALTER TABLE public.product_inspections
+  ADD COLUMN IF NOT EXISTS category TEXT,
+  ADD COLUMN IF NOT EXISTS analysis JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_product_inspections_category
+  ON public.product_inspections(category);
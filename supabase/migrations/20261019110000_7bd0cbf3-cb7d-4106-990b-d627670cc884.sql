@@ -0,0 +1,45 @@
+-- Append-only history of every analysis, linked to the product's inspection row
+CREATE TABLE IF NOT EXISTS public.analysis_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES public.product_inspections(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  canonical_url TEXT NOT NULL,
+
+  -- Pipeline that produced the run
+  analyser_version TEXT NOT NULL,
+  model TEXT NOT NULL,
+  fetch_strategy TEXT NOT NULL CHECK (fetch_strategy IN ('direct', 'firecrawl', 'failed')),
+  http_status INTEGER,
+  extractor TEXT,
+  timings JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- Snapshot of the result
+  ai_score INTEGER NOT NULL CHECK (ai_score >= 0 AND ai_score <= 100),
+  sentiment_score DECIMAL(3, 2) CHECK (sentiment_score >= -1 AND sentiment_score <= 1),
+  price DECIMAL(10, 2),
+  currency TEXT,
+  rating DECIMAL(3, 2),
+  category TEXT,
+  analysis JSONB NOT NULL,
+
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_runs_product_created
+  ON public.analysis_runs(product_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_runs_analyser_version
+  ON public.analysis_runs(analyser_version);
+
+ALTER TABLE public.analysis_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view analysis runs"
+  ON public.analysis_runs
+  FOR SELECT
+  USING (true);
+
+-- Runs are written by edge functions with the service role and never edited
+CREATE POLICY "Only service role can insert analysis runs"
+  ON public.analysis_runs
+  FOR INSERT
+  WITH CHECK (false);
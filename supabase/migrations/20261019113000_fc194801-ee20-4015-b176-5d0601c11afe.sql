@@ -0,0 +1,30 @@
+-- Per-store price observations recorded with every analysis run, for
+-- price-over-time charts. Score history is read from analysis_runs.
+CREATE TABLE IF NOT EXISTS public.price_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES public.product_inspections(id) ON DELETE CASCADE,
+  run_id UUID REFERENCES public.analysis_runs(id) ON DELETE SET NULL,
+  store TEXT NOT NULL,
+  store_url TEXT,
+  -- 'page': price extracted from the analyzed page itself
+  source TEXT NOT NULL DEFAULT 'page',
+  price DECIMAL(10, 2) NOT NULL,
+  currency TEXT,
+  in_stock BOOLEAN,
+  captured_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_snapshots_product_captured
+  ON public.price_snapshots(product_id, captured_at);
+
+ALTER TABLE public.price_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view price snapshots"
+  ON public.price_snapshots
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Only service role can insert price snapshots"
+  ON public.price_snapshots
+  FOR INSERT
+  WITH CHECK (false);
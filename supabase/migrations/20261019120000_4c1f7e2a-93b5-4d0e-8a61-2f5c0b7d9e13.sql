@@ -0,0 +1,117 @@
+-- Category taxonomy with a fixed scoring rubric per node, so sub-scores for
+-- products in the same category share labels and can be compared.
+CREATE TABLE IF NOT EXISTS public.category_taxonomy (
+  id TEXT NOT NULL PRIMARY KEY,
+  parent_id TEXT REFERENCES public.category_taxonomy(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  -- Other names the classifier may see for this category
+  aliases TEXT[] NOT NULL DEFAULT '{}',
+  description TEXT,
+  -- [{"key", "label", "weight", "description"}]; an empty array inherits the
+  -- parent's rubric
+  dimensions JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(dimensions) = 'array'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE public.category_taxonomy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view the category taxonomy"
+  ON public.category_taxonomy
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Only service role can insert categories"
+  ON public.category_taxonomy
+  FOR INSERT
+  WITH CHECK (false);
+
+CREATE POLICY "Only service role can update categories"
+  ON public.category_taxonomy
+  FOR UPDATE
+  USING (false);
+
+CREATE TRIGGER update_category_taxonomy_updated_at
+  BEFORE UPDATE ON public.category_taxonomy
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_product_inspections_updated_at();
+
+INSERT INTO public.category_taxonomy (id, parent_id, name, aliases, description, dimensions) VALUES
+  ('generic', NULL, 'General', '{}', 'Fallback rubric for products outside the taxonomy', '[
+    {"key": "quality", "label": "Quality", "weight": 0.3, "description": "Materials, construction and finish"},
+    {"key": "value", "label": "Value", "weight": 0.25, "description": "What the product offers for its price"},
+    {"key": "features", "label": "Features", "weight": 0.25, "description": "Usefulness and breadth of functionality"},
+    {"key": "reliability", "label": "Reliability", "weight": 0.2, "description": "Durability and consistency reported by owners"}
+  ]'),
+  ('electronics', NULL, 'Electronics', '{"gadgets"}', NULL, '[
+    {"key": "performance", "label": "Performance", "weight": 0.3, "description": "Speed and effectiveness at its main job"},
+    {"key": "build_quality", "label": "Build quality", "weight": 0.25, "description": "Materials, fit and finish"},
+    {"key": "features", "label": "Features", "weight": 0.2, "description": "Usefulness and breadth of functionality"},
+    {"key": "value", "label": "Value", "weight": 0.25, "description": "What the product offers for its price"}
+  ]'),
+  ('beauty', NULL, 'Beauty & personal care', '{"cosmetics", "personal care"}', NULL, '[
+    {"key": "effectiveness", "label": "Effectiveness", "weight": 0.35, "description": "Delivers the results it claims"},
+    {"key": "gentleness", "label": "Gentleness", "weight": 0.25, "description": "Free of irritation, dryness or breakouts"},
+    {"key": "ingredients", "label": "Ingredients", "weight": 0.2, "description": "Quality and safety of the formulation"},
+    {"key": "value", "label": "Value", "weight": 0.2, "description": "Quantity and results for the price"}
+  ]'),
+  ('fashion', NULL, 'Fashion', '{"clothing", "apparel"}', NULL, '[
+    {"key": "fit", "label": "Fit", "weight": 0.3, "description": "True to size and flattering cut"},
+    {"key": "material_quality", "label": "Material quality", "weight": 0.25, "description": "Fabric feel and stitching"},
+    {"key": "comfort", "label": "Comfort", "weight": 0.25, "description": "Comfort over a full day of wear"},
+    {"key": "durability", "label": "Durability", "weight": 0.2, "description": "Holds shape and colour after washing and wear"}
+  ]'),
+  ('home_appliances', NULL, 'Home & kitchen appliances', '{"kitchen appliances", "appliances"}', NULL, '[
+    {"key": "performance", "label": "Performance", "weight": 0.35, "description": "Effectiveness at its main job"},
+    {"key": "build_quality", "label": "Build quality", "weight": 0.25, "description": "Sturdiness and materials"},
+    {"key": "ease_of_use", "label": "Ease of use", "weight": 0.2, "description": "Controls, setup and cleaning"},
+    {"key": "energy_efficiency", "label": "Energy efficiency", "weight": 0.2, "description": "Power and running costs"}
+  ]'),
+  ('headphones', 'electronics', 'Headphones', '{"earbuds", "earphones", "headsets", "TWS"}', NULL, '[
+    {"key": "sound_quality", "label": "Sound quality", "weight": 0.35, "description": "Clarity, balance and bass"},
+    {"key": "comfort", "label": "Comfort", "weight": 0.25, "description": "Fit and comfort over long sessions"},
+    {"key": "battery_life", "label": "Battery life", "weight": 0.2, "description": "Playback time per charge; wired models score on cable durability"},
+    {"key": "noise_cancellation", "label": "Noise cancellation", "weight": 0.2, "description": "Active or passive isolation from outside noise"}
+  ]'),
+  ('smartphones', 'electronics', 'Smartphones', '{"mobile phones", "phones"}', NULL, '[
+    {"key": "performance", "label": "Performance", "weight": 0.3, "description": "Speed, smoothness and thermals"},
+    {"key": "camera", "label": "Camera", "weight": 0.25, "description": "Photo and video quality"},
+    {"key": "battery_life", "label": "Battery life", "weight": 0.25, "description": "Screen-on time and charging speed"},
+    {"key": "display", "label": "Display", "weight": 0.2, "description": "Brightness, colour and refresh rate"}
+  ]'),
+  ('laptops', 'electronics', 'Laptops', '{"notebooks", "ultrabooks"}', NULL, '[
+    {"key": "performance", "label": "Performance", "weight": 0.35, "description": "CPU, GPU and memory for the intended use"},
+    {"key": "battery_life", "label": "Battery life", "weight": 0.25, "description": "Real-world unplugged runtime"},
+    {"key": "display", "label": "Display", "weight": 0.2, "description": "Resolution, brightness and colour"},
+    {"key": "portability", "label": "Portability", "weight": 0.2, "description": "Weight, size and build"}
+  ]'),
+  ('televisions', 'electronics', 'Televisions', '{"TVs", "smart TVs"}', NULL, '[
+    {"key": "picture_quality", "label": "Picture quality", "weight": 0.4, "description": "Contrast, colour, brightness and motion"},
+    {"key": "sound", "label": "Sound", "weight": 0.2, "description": "Built-in speaker quality"},
+    {"key": "smart_features", "label": "Smart features", "weight": 0.2, "description": "Apps, OS speed and connectivity"},
+    {"key": "value", "label": "Value", "weight": 0.2, "description": "Picture and features for the price"}
+  ]'),
+  ('skincare', 'beauty', 'Skincare', '{"moisturizers", "serums", "sunscreens"}', NULL, '[]'),
+  ('facewash', 'skincare', 'Face wash', '{"facial cleansers", "cleansers"}', NULL, '[
+    {"key": "cleansing", "label": "Cleansing", "weight": 0.3, "description": "Removes dirt, oil and makeup"},
+    {"key": "gentleness", "label": "Gentleness", "weight": 0.3, "description": "Leaves skin without tightness or irritation"},
+    {"key": "skin_compatibility", "label": "Skin compatibility", "weight": 0.2, "description": "Suits the skin types it targets"},
+    {"key": "ingredients", "label": "Ingredients", "weight": 0.2, "description": "Quality and safety of the formulation"}
+  ]'),
+  ('footwear', 'fashion', 'Footwear', '{"shoes", "sneakers", "sandals"}', NULL, '[
+    {"key": "comfort", "label": "Comfort", "weight": 0.3, "description": "Cushioning and support over a full day"},
+    {"key": "fit", "label": "Fit", "weight": 0.25, "description": "True to size and width"},
+    {"key": "durability", "label": "Durability", "weight": 0.25, "description": "Sole and upper wear over time"},
+    {"key": "grip", "label": "Grip", "weight": 0.2, "description": "Traction on the surfaces it is meant for"}
+  ]')
+ON CONFLICT (id) DO NOTHING;
+
+-- The taxonomy node each product was scored against
+ALTER TABLE public.product_inspections
+  ADD COLUMN IF NOT EXISTS category_id TEXT REFERENCES public.category_taxonomy(id) ON DELETE SET NULL;
+
+ALTER TABLE public.analysis_runs
+  ADD COLUMN IF NOT EXISTS category_id TEXT REFERENCES public.category_taxonomy(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_product_inspections_category_id
+  ON public.product_inspections(category_id);
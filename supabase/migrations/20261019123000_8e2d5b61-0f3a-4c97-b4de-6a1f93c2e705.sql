@@ -0,0 +1,11 @@
+-- Whether the model's reply passed schema validation first time or only
+-- after a repair prompt. Failed analyses are never stored.
+ALTER TABLE public.analysis_runs
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'ok' CHECK (status IN ('ok', 'repaired'));
+
+-- Expire inspections cached from the old canned fallback analysis so they
+-- are re-analyzed on the next request.
+UPDATE public.product_inspections
+SET cached_until = NOW()
+WHERE pros = ARRAY['Available', 'Listed', 'Accessible', 'Online', 'Verified', 'Reputable']
+  AND cached_until > NOW();
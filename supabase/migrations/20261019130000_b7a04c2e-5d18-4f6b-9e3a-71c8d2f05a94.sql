@@ -0,0 +1,36 @@
+-- Latest live price and stock per verified store offer. One row per product
+-- and store URL, refreshed on every analysis; history lives in
+-- price_snapshots.
+CREATE TABLE IF NOT EXISTS public.offers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES public.product_inspections(id) ON DELETE CASCADE,
+  run_id UUID REFERENCES public.analysis_runs(id) ON DELETE SET NULL,
+  store TEXT NOT NULL,
+  url TEXT NOT NULL,
+  price DECIMAL(10, 2),
+  currency TEXT,
+  in_stock BOOLEAN,
+  -- The analyzed page itself rather than another store
+  is_source BOOLEAN NOT NULL DEFAULT false,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (product_id, url)
+);
+
+ALTER TABLE public.offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view offers"
+  ON public.offers
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Only service role can insert offers"
+  ON public.offers
+  FOR INSERT
+  WITH CHECK (false);
+
+CREATE POLICY "Only service role can update offers"
+  ON public.offers
+  FOR UPDATE
+  USING (false);
+
+COMMENT ON COLUMN public.price_snapshots.source IS '''page'' for the analyzed page, ''offer'' for verified store offers';
@@ -0,0 +1,42 @@
+-- Customer reviews collected from product pages and their paginated review
+-- listings, kept so later analyses reuse them instead of crawling again.
+CREATE TABLE IF NOT EXISTS public.product_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  product_id UUID NOT NULL REFERENCES public.product_inspections(id) ON DELETE CASCADE,
+  -- Normalized start of the review text, used to deduplicate
+  review_key TEXT NOT NULL,
+  author TEXT,
+  rating DECIMAL(3, 2),
+  title TEXT,
+  body TEXT NOT NULL,
+  review_date DATE,
+  verified_purchase BOOLEAN,
+  -- Where the review was read: 'json-ld', 'microdata', 'site', 'api' or 'dom'
+  source TEXT NOT NULL,
+  collected_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  UNIQUE (product_id, review_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_reviews_product_id ON public.product_reviews(product_id);
+
+ALTER TABLE public.product_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view product reviews"
+  ON public.product_reviews
+  FOR SELECT
+  USING (true);
+
+CREATE POLICY "Only service role can insert product reviews"
+  ON public.product_reviews
+  FOR INSERT
+  WITH CHECK (false);
+
+CREATE POLICY "Only service role can update product reviews"
+  ON public.product_reviews
+  FOR UPDATE
+  USING (false);
+
+-- When the review listing was last crawled; reviews are reused until it is
+-- due again.
+ALTER TABLE public.product_inspections
+  ADD COLUMN IF NOT EXISTS reviews_crawled_at TIMESTAMP WITH TIME ZONE;
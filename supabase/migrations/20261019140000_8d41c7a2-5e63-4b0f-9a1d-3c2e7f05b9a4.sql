@@ -0,0 +1,4 @@
+-- Re-analysis looks up inspections produced by analyser versions other than
+-- the current one.
+CREATE INDEX IF NOT EXISTS idx_product_inspections_analyser_version
+  ON public.product_inspections(analyser_version, fetched_at);
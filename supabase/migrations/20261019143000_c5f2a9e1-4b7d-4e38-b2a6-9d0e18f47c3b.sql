@@ -0,0 +1,33 @@
+-- Before/after reports of batch re-analyses, reviewed before a new analyser
+-- version is promoted. Reports are internal: only the service role reads them.
+CREATE TABLE IF NOT EXISTS public.reanalysis_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- Analyser version the products were re-analysed with
+  analyser_version TEXT NOT NULL,
+  -- False when the new results replaced the stored ones, true for previews
+  preview BOOLEAN NOT NULL,
+  -- Filters the products were chosen with
+  selection JSONB NOT NULL DEFAULT '{}'::jsonb,
+  summary JSONB NOT NULL,
+  -- One entry per product: its previous version, outcome and diff
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Set once every selected product was processed; null while the batch runs
+  -- or when it was cut off
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_reanalysis_reports_created_at
+  ON public.reanalysis_reports(created_at DESC);
+
+ALTER TABLE public.reanalysis_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Only service role can insert reanalysis reports"
+  ON public.reanalysis_reports
+  FOR INSERT
+  WITH CHECK (false);
+
+CREATE POLICY "Only service role can update reanalysis reports"
+  ON public.reanalysis_reports
+  FOR UPDATE
+  USING (false);